@@ -0,0 +1,74 @@
+#!/usr/bin/bash
+
+# Generates one contract per city from a template contract and the city configs in ./contracts/cities.
+#
+# usage: generate-city-contracts.sh <template contract> <output dir>
+#
+# Each ./contracts/cities/<contract name>.conf sets CITY_TOKEN_NAME, CITY_TOKEN_SYMBOL, CITY_TOKEN_URI, CITY_WALLET
+# and CITY_ACTIVATION_THRESHOLD, which replace the matching constants of the template in <output dir>/<contract name>.clar
+#
+# Each config must also have a CityConfig in ./src/city-configs.ts.  The multi-city tests check that its values match
+# the generated contract's.
+
+script_dir="$( cd "$( dirname "${BASH_SOURCE[0]}" )" >/dev/null 2>&1 && pwd )"
+contracts_dir_rel="${script_dir}/../contracts"
+contracts_dir=$(readlink -e "$contracts_dir_rel")
+cities_dir="${contracts_dir}/cities"
+clarinet_toml="${script_dir}/../Clarinet.toml"
+city_configs_ts="${script_dir}/../src/city-configs.ts"
+
+template="$1"
+output_dir="$2"
+
+set -ueo pipefail
+
+if [ ! -f "${template}" ] || [ -z "${output_dir}" ]; then
+    echo "usage: $0 <template contract> <output dir>"
+    exit 1
+fi
+
+mkdir -p "${output_dir}"
+
+# replace_constant <file> <constant name> <value>
+replace_constant() {
+    local file="$1"
+    local name="$2"
+    local value="$3"
+
+    sed -i -E -e "s|^\(define-constant ${name} [^ ;]+\)|(define-constant ${name} ${value})|" "${file}"
+
+    if ! grep -qF "(define-constant ${name} ${value})" "${file}"; then
+        echo "ERROR: could not set ${name} in ${file}"
+        exit 1
+    fi
+}
+
+shopt -s nullglob
+for config in "${cities_dir}"/*.conf; do
+    contract_name=$(basename "${config}" .conf)
+    target="${output_dir}/${contract_name}.clar"
+
+    # read each config in a subshell, so one city's settings never leak into the next
+    (
+        source "${config}"
+
+        cp "${template}" "${target}"
+        replace_constant "${target}" "TOKEN-NAME" "\"${CITY_TOKEN_NAME}\""
+        replace_constant "${target}" "TOKEN-SYMBOL" "\"${CITY_TOKEN_SYMBOL}\""
+        replace_constant "${target}" "TOKEN-URI" "u\"${CITY_TOKEN_URI}\""
+        replace_constant "${target}" "CITY-WALLET" "'${CITY_WALLET}"
+        replace_constant "${target}" "MINING-ACTIVATION-THRESHOLD" "u${CITY_ACTIVATION_THRESHOLD}"
+    )
+
+    if ! grep -qF "[contracts.${contract_name}]" "${clarinet_toml}"; then
+        echo "WARNING: ${contract_name} has no [contracts.${contract_name}] entry in Clarinet.toml"
+    fi
+
+    if ! grep -qF "contractName: \"${contract_name}\"" "${city_configs_ts}"; then
+        echo "ERROR: ${contract_name} has no CityConfig in src/city-configs.ts"
+        exit 1
+    fi
+
+    echo "Generated ${target}"
+done
+shopt -u nullglob
@@ -0,0 +1,73 @@
+// Measures the execution costs of mining and cancelling at the maximum sizes, and prints them as the README's table.
+//
+// usage: node measure-costs.mjs
+//
+// Runs the prepared contracts (npm run clarinet:prepare) on a simnet with cost tracking: 128 miners each commit 1 uSTX
+// to each of 200 blocks with mine-many, then the first and the last miner cancel the commitments they can still take
+// back with cancel-mining.
+//
+// The Clarinet SDK reads the accounts from settings/Devnet.toml rather than settings/Development.toml, and writes a
+// deployment plan, so the simnet runs in a temporary copy of the project.
+
+import { cpSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { initSimnet, tx } from "@hirosystems/clarinet-sdk";
+import { addressToString, cvToString, listCV, uintCV } from "@stacks/transactions";
+
+const MAX_MINERS_PER_BLOCK = 128;
+const MAX_MINE_MANY_BLOCKS = 200;
+
+const projectDir = fileURLToPath(new URL("..", import.meta.url));
+const simnetDir = mkdtempSync(join(tmpdir(), "citycoin-costs-"));
+cpSync(join(projectDir, "Clarinet.toml"), join(simnetDir, "Clarinet.toml"));
+cpSync(join(projectDir, "contracts", "clarinet"), join(simnetDir, "contracts", "clarinet"), { recursive: true });
+cpSync(join(projectDir, "settings", "Development.toml"), join(simnetDir, "settings", "Devnet.toml"));
+
+const simnet = await initSimnet(join(simnetDir, "Clarinet.toml"), true, { trackCosts: true, trackCoverage: false });
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer");
+
+// register enough miners to activate the contract, and wait for activation
+simnet.mineBlock(
+  [1, 2, 3, 4, 5].map((i) => tx.callPublicFn("citycoin", "register-miner", [], accounts.get(`wallet_${i}`)))
+);
+simnet.mineEmptyBlocks(101);
+
+// testnet addresses that only differ in their last two bytes, funded with enough uSTX to commit to every block
+const miners = [...Array(MAX_MINERS_PER_BLOCK).keys()].map((i) => {
+  const hash160 = new Uint8Array(20).fill(0xc1);
+  hash160[18] = i >> 8;
+  hash160[19] = i & 0xff;
+  return addressToString({ type: 0, version: 26, hash160: Buffer.from(hash160).toString("hex") });
+});
+simnet.mineBlock(miners.map((miner) => tx.transferSTX(MAX_MINE_MANY_BLOCKS, miner, deployer)));
+
+const amounts = listCV(Array(MAX_MINE_MANY_BLOCKS).fill(uintCV(1)));
+const mined = simnet.mineBlock(miners.map((miner) => tx.callPublicFn("citycoin", "mine-many", [amounts], miner)));
+
+// both cancel in the next block, which can't be cancelled anymore: the first miner's position goes to the last miner,
+// then the miner that is now last cancels
+const cancelledBlocks = MAX_MINE_MANY_BLOCKS - 2;
+const cancel = (miner) => tx.callPublicFn("citycoin", "cancel-mining", [uintCV(0)], miner);
+const [byFirst, byLast] = simnet.mineBlock([cancel(miners[0]), cancel(miners[MAX_MINERS_PER_BLOCK - 2])]);
+
+const rows = [
+  [`\`mine-many\` of ${MAX_MINE_MANY_BLOCKS} blocks, by the ${MAX_MINERS_PER_BLOCK}th miner`, mined[MAX_MINERS_PER_BLOCK - 1]],
+  [`\`cancel-mining\` of ${cancelledBlocks} blocks, by the first miner (the last miner moves to their position)`, byFirst],
+  [`\`cancel-mining\` of ${cancelledBlocks} blocks, by the last miner`, byLast],
+];
+
+const format = (n) => Number(n).toLocaleString("en-US");
+console.log("| transaction | reads | writes | runtime |");
+console.log("| --- | --- | --- | --- |");
+for (const [label, receipt] of rows) {
+  if (!cvToString(receipt.result).startsWith("(ok")) {
+    throw new Error(`${label} failed: ${cvToString(receipt.result)}`);
+  }
+  const { readCount, writeCount, runtime } = receipt.costs.total;
+  console.log(`| ${label} | ${format(readCount)} | ${format(writeCount)} | ${format(runtime)} |`);
+}
+
+rmSync(simnetDir, { recursive: true, force: true });
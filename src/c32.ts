@@ -0,0 +1,86 @@
+// c32check encoding of Stacks addresses (see SIP-005), e.g. to turn a principal into the
+// version byte and hash160 that Clarity's binary encoding uses, and back.
+
+import { Sha256 } from "https://deno.land/std@0.93.0/hash/sha256.ts";
+
+const C32_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+export interface AddressBytes {
+  version: number,
+  // 20 bytes
+  hash160: Uint8Array
+}
+
+function checksum(version: number, hash160: Uint8Array): Uint8Array {
+  const once = new Sha256().update([version, ...hash160]).digest();
+  return new Uint8Array(new Sha256().update(once).digest().slice(0, 4));
+}
+
+// every leading zero byte is encoded as a leading '0', the rest as a big-endian base-32 number
+function c32Encode(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) {
+    zeros++;
+  }
+
+  let value = bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+  let digits = "";
+  while (value > 0n) {
+    digits = C32_ALPHABET[Number(value % 32n)] + digits;
+    value /= 32n;
+  }
+
+  return "0".repeat(zeros) + digits;
+}
+
+function c32Decode(c32: string, length: number): Uint8Array {
+  let value = 0n;
+  for (const ch of c32) {
+    const digit = C32_ALPHABET.indexOf(ch);
+    if (digit < 0) {
+      throw new Error(`Invalid c32 character '${ch}' in '${c32}'`);
+    }
+    value = value * 32n + BigInt(digit);
+  }
+
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  if (value > 0n) {
+    throw new Error(`c32 string '${c32}' doesn't fit in ${length} bytes`);
+  }
+
+  return bytes;
+}
+
+/**
+ * Encodes a version byte and hash160 as a Stacks address, e.g. `ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE`.
+ */
+export function c32Address(version: number, hash160: Uint8Array): string {
+  const data = new Uint8Array(24);
+  data.set(hash160);
+  data.set(checksum(version, hash160), 20);
+
+  return `S${C32_ALPHABET[version]}${c32Encode(data)}`;
+}
+
+/**
+ * Decodes a Stacks address into its version byte and hash160, checking its checksum.
+ */
+export function c32AddressDecode(address: string): AddressBytes {
+  const version = C32_ALPHABET.indexOf(address.charAt(1));
+  if (address.charAt(0) !== "S" || version < 0) {
+    throw new Error(`Invalid Stacks address '${address}'`);
+  }
+
+  const data = c32Decode(address.substring(2), 24);
+  const hash160 = data.slice(0, 20);
+  const expected = checksum(version, hash160);
+  if (!expected.every((byte, i) => byte === data[20 + i])) {
+    throw new Error(`Invalid checksum in Stacks address '${address}'`);
+  }
+
+  return { version, hash160 };
+}
@@ -0,0 +1,106 @@
+// Where CityCoinReader reads chain state from: a Clarinet session in tests, or a Stacks node (see http-backend.ts).
+
+import { Block, Chain, Tx } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import {
+  ClarityTuple,
+  ClarityValue,
+  asTuple,
+  asUint,
+  decodeClarityValue
+} from './clarity-decoder.ts';
+
+// A Clarinet session answers right away, while a Stacks node answers asynchronously: the same read returns a T
+// from a "sync" backend, and a Promise<T> from an "async" one.
+export type ReadMode = "sync" | "async";
+export type Read<M extends ReadMode, T> = M extends "sync" ? T : Promise<T>;
+
+export interface ChainBackend<M extends ReadMode = "async"> {
+  readonly mode: M;
+
+  /**
+   * Calls a read-only function and returns its decoded result.
+   *
+   * @param args Clarity values as built with Clarinet's `types.*`, e.g. `types.uint(5)`
+   */
+  callReadOnly(contractId: string, method: string, args: string[], sender: string): Read<M, ClarityValue>;
+
+  /**
+   * Reads a data map entry directly, and returns it as a decoded optional: null if there is none, to be read with
+   * `asOptional()`.
+   *
+   * @param key Clarity value as built with Clarinet's `types.*`
+   */
+  getMapEntry(contractId: string, mapName: string, key: string): Read<M, ClarityValue>;
+
+  /**
+   * The nonce the next transaction sent by the given principal must use.  ClarinetBackend only counts the
+   * transactions mined through its own `mineBlock()`, not the ones mined with `Chain.mineBlock()`.
+   */
+  getNonce(principal: string): Read<M, bigint>;
+
+  // the current fee rate, in uSTX per byte
+  getFeeRate(): Read<M, bigint>;
+}
+
+// Clarinet can't read a map directly, so ClarinetBackend reads the maps it knows of through the contract's
+// read-only functions, and rebuilds the entry from their result.
+type MapReader = (backend: ClarinetBackend, contractId: string, key: ClarityTuple) => ClarityValue;
+
+const MAP_READERS: Record<string, MapReader> = {
+  // get-block-summary reports the block's entry, or an empty one if there is none.  A block whose commitments
+  // were all cancelled has an empty entry, which reads as none.
+  "block-miners": (backend, contractId, key) => {
+    const summary = asTuple(backend.callReadOnly(contractId, "get-block-summary", [
+      `u${asUint(key["stacks-block-height"])}`
+    ], contractId.split(".")[0]));
+
+    return asUint(summary["miners"]) === 0n ? null : {
+      "miners-count": summary["miners"],
+      "total-ustx": summary["commit-total"],
+      "claimed": summary["claimed"]
+    };
+  }
+};
+
+/**
+ * Reads from a Clarinet session, synchronously.  Only the maps in MAP_READERS can be read with `getMapEntry()`.
+ * Clarinet picks nonces itself, so they are counted from the transactions mined through `mineBlock()`, and its
+ * transactions are free.
+ */
+export class ClarinetBackend implements ChainBackend<"sync"> {
+  readonly mode = "sync";
+  chain: Chain;
+  private sent: Map<string, bigint> = new Map();
+
+  constructor(chain: Chain) {
+    this.chain = chain;
+  }
+
+  callReadOnly(contractId: string, method: string, args: string[], sender: string): ClarityValue {
+    return decodeClarityValue(this.chain.callReadOnlyFn(contractId, method, args, sender).result);
+  }
+
+  getMapEntry(contractId: string, mapName: string, key: string): ClarityValue {
+    const read = MAP_READERS[mapName];
+    if (read === undefined) {
+      throw new Error(`ClarinetBackend can't read the ${mapName} map`);
+    }
+    return read(this, contractId, asTuple(decodeClarityValue(key)));
+  }
+
+  getNonce(principal: string): bigint {
+    return this.sent.get(principal) ?? 0n;
+  }
+
+  getFeeRate(): bigint {
+    return 0n;
+  }
+
+  // mines the transactions like `Chain.mineBlock()`, counting them towards their sender's nonce
+  mineBlock(transactions: Tx[]): Block {
+    for (const tx of transactions) {
+      this.sent.set(tx.sender, this.getNonce(tx.sender) + 1n);
+    }
+    return this.chain.mineBlock(transactions);
+  }
+}
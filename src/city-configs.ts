@@ -0,0 +1,33 @@
+// Off-chain mirror of the city configs in contracts/cities, which scripts/generate-city-contracts.sh
+// turns into one contract per city.  Pass one to `new CityCoinClient(chain, deployer, city)`.  The generator refuses
+// a city that isn't listed here, and tests/multi_city_test.ts checks that each city's values match its contract.
+
+export interface CityConfig {
+  // name of the generated contract, i.e. the config's file name
+  contractName: string,
+  tokenName: string,
+  tokenSymbol: string,
+  tokenUri: string,
+  cityWallet: string,
+  activationThreshold: number
+}
+
+export const MIAMICOIN: CityConfig = {
+  contractName: "miamicoin",
+  tokenName: "miamicoin",
+  tokenSymbol: "MIA",
+  tokenUri: "https://citycoins.co/metadata/miamicoin.json",
+  cityWallet: "STEB8ZW46YZJ40E3P7A287RBJFWPHYNQ2AB5ECT8",
+  activationThreshold: 20
+};
+
+export const SANFRANCISCOCOIN: CityConfig = {
+  contractName: "sanfranciscocoin",
+  tokenName: "sanfranciscocoin",
+  tokenSymbol: "SFC",
+  tokenUri: "https://citycoins.co/metadata/sanfranciscocoin.json",
+  cityWallet: "STFCVYY1RJDNJHST7RRTPACYHVJQDJ7R1DWTQHQA",
+  activationThreshold: 3
+};
+
+export const CITIES: CityConfig[] = [MIAMICOIN, SANFRANCISCOCOIN];
@@ -1,7 +1,31 @@
 import { Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import {
+  ClarityValue,
+  asUint,
+  asBool,
+  asString,
+  asList,
+  asTuple,
+  asResponse,
+  asOptional
+} from './clarity-decoder.ts';
+import {
+  CityConfig
+} from './city-configs.ts';
+import {
+  ChainBackend,
+  ClarinetBackend,
+  Read,
+  ReadMode
+} from './chain-backend.ts';
+import {
+  CityCoinEvent,
+  ReceiptEvent,
+  parseCityCoinEvents
+} from './citycoin-events.ts';
 
 //used only for better intellisense 
-export interface Result {
+export interface ReadOnlyResult {
   session_id: number,
   result: string
   events: []
@@ -21,212 +45,983 @@ export enum ErrCode {
   ERR_NOTHING_TO_REDEEM,
   ERR_CANNOT_MINE,
   ERR_MINER_ALREADY_REGISTERED,
-  ERR_MINING_ACTIVATION_THRESHOLD_REACHED
+  ERR_MINING_ACTIVATION_THRESHOLD_REACHED,
+  ERR_TOKENS_NOT_UNLOCKED,
+  ERR_NOT_DELEGATED,
+  ERR_DELEGATION_EXPIRED,
+  ERR_NO_SUCH_PROPOSAL,
+  ERR_INVALID_PROPOSAL,
+  ERR_ALREADY_VOTED,
+  ERR_VOTING_CLOSED,
+  ERR_VOTING_NOT_CLOSED,
+  ERR_QUORUM_NOT_REACHED,
+  ERR_PROPOSAL_REJECTED,
+  ERR_PROPOSAL_ALREADY_EXECUTED,
+  ERR_MINING_PAUSED,
+  ERR_STACKING_PAUSED,
+  ERR_CONTRACT_SHUT_DOWN,
+  ERR_INVALID_SPLIT_PCT
 }
 
+// what a proposal does once it passes
+export enum ProposalKind {
+  SPEND_CITY_FUNDS = 1,
+  SET_CITY_WALLET
+}
+
+// Result of a function returning a response, with (err uN) mapped onto ErrCode.
+export type Result<T, E = ErrCode> =
+  | { ok: true, value: T }
+  | { ok: false, error: E };
+
+export interface PoxLiteInfo {
+  rewardCycleId: bigint,
+  firstBlockHeight: bigint,
+  rewardCycleLength: bigint,
+  totalSupply: bigint,
+  totalUstxLocked: bigint,
+  curLiquidSupply: bigint,
+  curLockedSupply: bigint,
+  curUstxCommitted: bigint
+}
+
+export interface CycleTotals {
+  totalUstx: bigint,
+  totalTokens: bigint
+}
+
+export interface CycleStats {
+  stackers: bigint,
+  tokensLocked: bigint,
+  ustxCommitted: bigint,
+  ustxClaimed: bigint,
+  // uSTX per whole token, rounded down
+  avgUstxPerToken: bigint
+}
+
+export interface MinerStats {
+  blocksMined: bigint,
+  ustxSpent: bigint,
+  blocksWon: bigint,
+  tokensEarned: bigint,
+  // uSTX per block mined, rounded down
+  avgUstxPerBlock: bigint
+}
+
+export interface MinerRanking {
+  miner: string,
+  stats: MinerStats
+}
+
+export interface BlockSummary {
+  stacksBlockHeight: number,
+  miners: bigint,
+  commitTotal: bigint,
+  // null until the block has matured, or if nobody mined it
+  winner: string | null,
+  claimed: boolean,
+  coinbase: bigint,
+  // whether the block comes after the contract was shut down: nobody wins it, and its miners take their uSTX back
+  void: boolean
+}
+
+export interface BlockMinersEntry {
+  minersCount: bigint,
+  totalUstx: bigint,
+  claimed: boolean
+}
+
+export interface MinerCommit {
+  miner: string,
+  amountUstx: bigint
+}
+
+// the miner wins the block if the VRF sample, modulo the block's commit total, is in [low, high)
+export interface MinerBounds {
+  index: bigint,
+  miner: string,
+  amountUstx: bigint,
+  low: bigint,
+  high: bigint
+}
+
+export interface PendingCommitment {
+  stacksBlockHeight: bigint,
+  amountUstx: bigint
+}
+
+export interface ActivationStatus {
+  registeredMiners: bigint,
+  threshold: bigint,
+  activated: boolean,
+  activationBlock: bigint | null
+}
+
+export interface CityWalletInfo {
+  cityWallet: string,
+  splitPct: bigint,
+  unclaimedUstx: bigint
+}
+
+export interface StackerUnlockInfo {
+  amountToken: bigint,
+  unlockRewardCycle: bigint,
+  unlocked: boolean
+}
+
+// tokens that are still locked up, and how many reward cycles after the current one they stay locked
+export interface StackingPosition {
+  amountToken: bigint,
+  unlockRewardCycle: bigint,
+  remainingCycles: bigint
+}
+
+// who can Stack a Stacker's tokens for them, how many of them at once, and until when (null if until revoked)
+export interface Delegation {
+  operator: string,
+  amountToken: bigint,
+  untilStacksHeight: bigint | null
+}
+
+// votes are weighed by the tokens Stacked in rewardCycle, until endHeight
+export interface Proposal {
+  proposer: string,
+  kind: ProposalKind,
+  amountUstx: bigint,
+  recipient: string,
+  rewardCycle: bigint,
+  endHeight: bigint,
+  votesFor: bigint,
+  votesAgainst: bigint,
+  executed: boolean
+}
+
+export interface ProposalVote {
+  inFavor: boolean,
+  amountToken: bigint
+}
+
+export interface ContractStatus {
+  admin: string,
+  miningPaused: boolean,
+  stackingPaused: boolean,
+  // null unless the contract was shut down
+  shutdownHeight: bigint | null
+}
+
+export interface CoinbaseEpochInfo {
+  epoch: bigint,
+  coinbaseAmount: bigint,
+  nextHalvingHeight: bigint | null
+}
+
+export function decodeResult<T>(value: ClarityValue, decodeOk: (value: ClarityValue) => T): Result<T, ErrCode> {
+  const response = asResponse(value);
+
+  if (response.isOk) {
+    return { ok: true, value: decodeOk(response.value) };
+  }
+  return { ok: false, error: Number(asUint(response.value)) as ErrCode };
+}
+
+function decodePoxLiteInfo(value: ClarityValue): PoxLiteInfo {
+  const tuple = asTuple(value);
+
+  return {
+    rewardCycleId: asUint(tuple["reward-cycle-id"]),
+    firstBlockHeight: asUint(tuple["first-block-height"]),
+    rewardCycleLength: asUint(tuple["reward-cycle-length"]),
+    totalSupply: asUint(tuple["total-supply"]),
+    totalUstxLocked: asUint(tuple["total-ustx-locked"]),
+    curLiquidSupply: asUint(tuple["cur-liquid-supply"]),
+    curLockedSupply: asUint(tuple["cur-locked-supply"]),
+    curUstxCommitted: asUint(tuple["cur-ustx-committed"])
+  };
+}
+
+function decodeCycleTotals(value: ClarityValue): CycleTotals {
+  const tuple = asTuple(value);
+
+  return {
+    totalUstx: asUint(tuple["total-ustx"]),
+    totalTokens: asUint(tuple["total-tokens"])
+  };
+}
+
+function decodeCycleStats(value: ClarityValue): CycleStats {
+  const tuple = asTuple(value);
+
+  return {
+    stackers: asUint(tuple["stackers"]),
+    tokensLocked: asUint(tuple["tokens-locked"]),
+    ustxCommitted: asUint(tuple["ustx-committed"]),
+    ustxClaimed: asUint(tuple["ustx-claimed"]),
+    avgUstxPerToken: asUint(tuple["avg-ustx-per-token"])
+  };
+}
+
+function decodeMinerStats(value: ClarityValue): MinerStats {
+  const tuple = asTuple(value);
+
+  return {
+    blocksMined: asUint(tuple["blocks-mined"]),
+    ustxSpent: asUint(tuple["ustx-spent"]),
+    blocksWon: asUint(tuple["blocks-won"]),
+    tokensEarned: asUint(tuple["tokens-earned"]),
+    avgUstxPerBlock: asUint(tuple["avg-ustx-per-block"])
+  };
+}
+
+function decodeMinerCommit(value: ClarityValue): MinerCommit {
+  const tuple = asTuple(value);
+
+  return {
+    miner: asString(tuple["miner"]),
+    amountUstx: asUint(tuple["amount-ustx"])
+  };
+}
+
+function decodeBlockSummary(stacksBlockHeight: number, value: ClarityValue): BlockSummary {
+  const tuple = asTuple(value);
+
+  return {
+    stacksBlockHeight,
+    miners: asUint(tuple["miners"]),
+    commitTotal: asUint(tuple["commit-total"]),
+    winner: asOptional(tuple["winner"], asString),
+    claimed: asBool(tuple["claimed"]),
+    coinbase: asUint(tuple["coinbase"]),
+    void: asBool(tuple["void"])
+  };
+}
+
+function decodeBlockMinersEntry(value: ClarityValue): BlockMinersEntry {
+  const tuple = asTuple(value);
+
+  return {
+    minersCount: asUint(tuple["miners-count"]),
+    totalUstx: asUint(tuple["total-ustx"]),
+    claimed: asBool(tuple["claimed"])
+  };
+}
+
+function decodeMinerBounds(value: ClarityValue): MinerBounds {
+  const tuple = asTuple(value);
+
+  return {
+    index: asUint(tuple["index"]),
+    miner: asString(tuple["miner"]),
+    amountUstx: asUint(tuple["amount-ustx"]),
+    low: asUint(tuple["low"]),
+    high: asUint(tuple["high"])
+  };
+}
+
+// Anything with an address, e.g. a Clarinet account, or the address itself.
+export type Principal = string | { address: string };
+
+function encodePrincipal(principal: Principal): string {
+  return types.principal(typeof principal === "string" ? principal : principal.address);
+}
+
+// Clarinet's types.uint() is typed for numbers, while decoded values (amounts, random samples) are bigints, which
+// may not fit in a number without losing precision.
+function encodeUint(value: number | bigint): string {
+  return `u${BigInt(value)}`;
+}
+
+function encodeMinerCommits(miners: MinerCommit[]): string {
+  return types.list(miners.map((commit) => types.tuple({
+    "miner": types.principal(commit.miner),
+    "amount-ustx": encodeUint(commit.amountUstx)
+  })));
+}
+
+function decodePendingCommitment(value: ClarityValue): PendingCommitment {
+  const tuple = asTuple(value);
+
+  return {
+    stacksBlockHeight: asUint(tuple["stacks-block-height"]),
+    amountUstx: asUint(tuple["amount-ustx"])
+  };
+}
+
+function decodeActivationStatus(value: ClarityValue): ActivationStatus {
+  const tuple = asTuple(value);
+
+  return {
+    registeredMiners: asUint(tuple["registered-miners"]),
+    threshold: asUint(tuple["threshold"]),
+    activated: asBool(tuple["activated"]),
+    activationBlock: asOptional(tuple["activation-block"], asUint)
+  };
+}
+
+function decodeCityWalletInfo(value: ClarityValue): CityWalletInfo {
+  const tuple = asTuple(value);
+
+  return {
+    cityWallet: asString(tuple["city-wallet"]),
+    splitPct: asUint(tuple["split-pct"]),
+    unclaimedUstx: asUint(tuple["unclaimed-ustx"])
+  };
+}
+
+function decodeStackerUnlockInfo(value: ClarityValue): StackerUnlockInfo {
+  const tuple = asTuple(value);
+
+  return {
+    amountToken: asUint(tuple["amount-token"]),
+    unlockRewardCycle: asUint(tuple["unlock-reward-cycle"]),
+    unlocked: asBool(tuple["unlocked"])
+  };
+}
+
+function decodeStackingPosition(value: ClarityValue): StackingPosition {
+  const tuple = asTuple(value);
+
+  return {
+    amountToken: asUint(tuple["amount-token"]),
+    unlockRewardCycle: asUint(tuple["unlock-reward-cycle"]),
+    remainingCycles: asUint(tuple["remaining-cycles"])
+  };
+}
+
+function decodeDelegation(value: ClarityValue): Delegation {
+  const tuple = asTuple(value);
+
+  return {
+    operator: asString(tuple["operator"]),
+    amountToken: asUint(tuple["amount-token"]),
+    untilStacksHeight: asOptional(tuple["until-stacks-ht"], asUint)
+  };
+}
+
+function decodeProposal(value: ClarityValue): Proposal {
+  const tuple = asTuple(value);
+
+  return {
+    proposer: asString(tuple["proposer"]),
+    kind: Number(asUint(tuple["kind"])) as ProposalKind,
+    amountUstx: asUint(tuple["amount-ustx"]),
+    recipient: asString(tuple["recipient"]),
+    rewardCycle: asUint(tuple["reward-cycle"]),
+    endHeight: asUint(tuple["end-height"]),
+    votesFor: asUint(tuple["votes-for"]),
+    votesAgainst: asUint(tuple["votes-against"]),
+    executed: asBool(tuple["executed"])
+  };
+}
+
+function decodeProposalVote(value: ClarityValue): ProposalVote {
+  const tuple = asTuple(value);
+
+  return {
+    inFavor: asBool(tuple["in-favor"]),
+    amountToken: asUint(tuple["amount-token"])
+  };
+}
+
+function decodeContractStatus(value: ClarityValue): ContractStatus {
+  const tuple = asTuple(value);
+
+  return {
+    admin: asString(tuple["admin"]),
+    miningPaused: asBool(tuple["mining-paused"]),
+    stackingPaused: asBool(tuple["stacking-paused"]),
+    shutdownHeight: asOptional(tuple["shutdown-height"], asUint)
+  };
+}
+
+function decodeCoinbaseEpochInfo(value: ClarityValue): CoinbaseEpochInfo {
+  const tuple = asTuple(value);
+
+  return {
+    epoch: asUint(tuple["epoch"]),
+    coinbaseAmount: asUint(tuple["coinbase-amount"]),
+    nextHalvingHeight: asOptional(tuple["next-halving-height"], asUint)
+  };
+}
+
+export const MINING_ACTIVATION_THRESHOLD = 5;
 export const MINING_ACTIVATION_DELAY = 100;
 export const FIRST_STACKING_BLOCK = 1 + MINING_ACTIVATION_DELAY;
 export const REWARD_CYCLE_LENGTH = 500;
-export class CityCoinClient {
-  contractName: string = "citycoin"
-  chain: Chain;
-  deployer: Account;
+export const TOKEN_REWARD_MATURITY = 100;
+export const MAX_REWARD_CYCLES = 32;
+export const CITY_WALLET_SPLIT_PCT = 30;
+export const MAX_MINERS_PER_BLOCK = 128;
+export const MAX_MINE_MANY_BLOCKS = 200;
+export const TOKEN_URI = "https://citycoins.co/metadata/citycoin.json";
+export const PROPOSAL_VOTING_PERIOD = 250;
+export const PROPOSAL_QUORUM_PCT = 25;
+/**
+ * The typed read-only functions of the contract, over any ChainBackend: CityCoinClient reads a Clarinet session
+ * with them, and dashboards can read a Stacks node (see HttpBackend).  Over a "sync" backend reads return their
+ * value, and over an "async" one a promise of it.
+ */
+export class CityCoinReader<M extends ReadMode = "async"> {
+  backend: ChainBackend<M>;
+  contractId: string;
+  sender: string;
 
-  constructor(chain: Chain, deployer: Account) {
-    this.chain = chain;
-    this.deployer = deployer;
+  /**
+   * @param contractId e.g. `SP...ABC.miamicoin`
+   * @param sender the principal read-only functions are called as, the contract deployer by default
+   */
+  constructor(backend: ChainBackend<M>, contractId: string, sender: string = contractId.split(".")[0]) {
+    this.backend = backend;
+    this.contractId = contractId;
+    this.sender = sender;
   }
 
-  private callReadOnlyFn(method: string, args: Array<any> = [], sender: Account = this.deployer): Result {
-    const result = this.chain.callReadOnlyFn(
-      this.contractName,
-      method,
-      args,
-      sender?.address
-    );
+  private read<T>(method: string, args: string[], decode: (value: ClarityValue) => T): Read<M, T> {
+    return this.then(this.backend.callReadOnly(this.contractId, method, args, this.sender), (value) => this.of(decode(value)));
+  }
 
-    return result;
+  // continues with the value once the backend returned it
+  private then<T, U>(read: Read<M, T>, next: (value: T) => Read<M, U>): Read<M, U> {
+    const value: unknown = read;
+    return (value instanceof Promise ? value.then(next) : next(value as T)) as Read<M, U>;
   }
 
-  public getContractAddress(): string {
-    return `${this.deployer.address}.${this.contractName}`;
+  private of<T>(value: T): Read<M, T> {
+    return (this.backend.mode === "sync" ? value : Promise.resolve(value)) as Read<M, T>;
+  }
+
+  // read only functions
+
+  getCoinbaseAmount(stacksBlockHeight: number): Read<M, bigint> {
+    return this.read("get-coinbase-amount", [
+      types.uint(stacksBlockHeight)
+    ], asUint);
+  }
+
+  getCoinbaseEpoch(stacksBlockHeight: number): Read<M, bigint | null> {
+    return this.read("get-coinbase-epoch", [
+      types.uint(stacksBlockHeight)
+    ], (value) => asOptional(value, asUint));
+  }
+
+  getCoinbaseEpochInfo(): Read<M, Result<CoinbaseEpochInfo>> {
+    return this.read("get-coinbase-epoch-info", [], (value) => decodeResult(value, decodeCoinbaseEpochInfo));
+  }
+
+  getMinersAtBlock(stacksBlockHeight: number): Read<M, MinerCommit[]> {
+    return this.read("get-miners-at-block", [
+      types.uint(stacksBlockHeight)
+    ], (value) => asList(value).map(decodeMinerCommit));
+  }
+
+  getMinerAtBlockIndex(stacksBlockHeight: number, index: number): Read<M, MinerBounds | null> {
+    return this.read("get-miner-at-block-index", [
+      types.uint(stacksBlockHeight),
+      types.uint(index)
+    ], (value) => asOptional(value, decodeMinerBounds));
+  }
+
+  getMinerAtBlock(miner: Principal, stacksBlockHeight: number): Read<M, MinerBounds | null> {
+    return this.read("get-miner-at-block", [
+      encodePrincipal(miner),
+      types.uint(stacksBlockHeight)
+    ], (value) => asOptional(value, decodeMinerBounds));
   }
 
   /**
-   * Mints token to make testing easier.
-   * 
-   * @param amount 
-   * @param recipient 
+   * Reads the `block-miners` map entry of the given block directly, or null if nobody mined it.
    */
-  ftMint(amount: number, recipient: Account): Tx {
-    return Tx.contractCall(
-      this.contractName,
-      "ft-mint",
-      [
-        types.uint(amount),
-        types.principal(recipient.address)
-      ],
-      this.deployer.address
-    );
+  getBlockMinersEntry(stacksBlockHeight: number): Read<M, BlockMinersEntry | null> {
+    return this.then(this.backend.getMapEntry(this.contractId, "block-miners", types.tuple({
+      "stacks-block-height": types.uint(stacksBlockHeight)
+    })), (value) => this.of(asOptional(value, decodeBlockMinersEntry)));
   }
 
-  // read only functions
+  isBlockRewardClaimed(stacksBlockHeight: number): Read<M, boolean> {
+    return this.read("is-block-reward-claimed", [
+      types.uint(stacksBlockHeight)
+    ], asBool);
+  }
 
-  getCoinbaseAmount(stacksBlockHeight: number): Result {
-    return this.callReadOnlyFn("get-coinbase-amount", [
+  getBlockSummary(stacksBlockHeight: number): Read<M, BlockSummary> {
+    return this.read("get-block-summary", [
       types.uint(stacksBlockHeight)
-    ]);
+    ], (value) => decodeBlockSummary(stacksBlockHeight, value));
   }
 
-  getMinersAtBlock(stacksBlockHeight: number): Result {
-    return this.callReadOnlyFn("get-miners-at-block", [
+  /**
+   * Summarizes every block in [fromHeight, toHeight], e.g. to render a block explorer page.
+   */
+  getBlockSummaries(fromHeight: number, toHeight: number): Read<M, BlockSummary[]> {
+    const summaries: BlockSummary[] = [];
+    const summarizeFrom = (height: number): Read<M, BlockSummary[]> => height > toHeight
+      ? this.of(summaries)
+      : this.then(this.getBlockSummary(height), (summary) => {
+          summaries.push(summary);
+          return summarizeFrom(height + 1);
+        });
+
+    return summarizeFrom(fromHeight);
+  }
+
+  getMinerStats(miner: Principal): Read<M, MinerStats> {
+    return this.read("get-miner-stats", [
+      encodePrincipal(miner)
+    ], decodeMinerStats);
+  }
+
+  getMinerCommitment(miner: Principal, stacksBlockHeight: number): Read<M, bigint | null> {
+    return this.read("get-miner-commitment", [
+      encodePrincipal(miner),
       types.uint(stacksBlockHeight)
-    ]);
+    ], (value) => asOptional(value, asUint));
+  }
+
+  getPendingCommitments(miner: Principal): Read<M, PendingCommitment[]> {
+    return this.read("get-pending-commitments", [
+      encodePrincipal(miner)
+    ], (value) => asList(value).map(decodePendingCommitment));
+  }
+
+  getStackedInCycle(miner: Principal, rewardCycle: number): Read<M, bigint> {
+    return this.read("get-stacked-in-cycle", [
+      encodePrincipal(miner),
+      types.uint(rewardCycle)
+    ], asUint);
+  }
+
+  getStackerUnlockInfo(stacker: Principal): Read<M, StackerUnlockInfo> {
+    return this.read("get-stacker-unlock-info", [
+      encodePrincipal(stacker)
+    ], decodeStackerUnlockInfo);
+  }
+
+  getStackingPosition(stacker: Principal): Read<M, StackingPosition | null> {
+    return this.read("get-stacking-position", [
+      encodePrincipal(stacker)
+    ], (value) => asOptional(value, decodeStackingPosition));
+  }
+
+  getDelegation(stacker: Principal): Read<M, Delegation | null> {
+    return this.read("get-delegation", [
+      encodePrincipal(stacker)
+    ], (value) => asOptional(value, decodeDelegation));
+  }
+
+  getDelegatedInCycle(operator: Principal, member: Principal, rewardCycle: number): Read<M, bigint> {
+    return this.read("get-delegated-in-cycle", [
+      encodePrincipal(operator),
+      encodePrincipal(member),
+      types.uint(rewardCycle)
+    ], asUint);
+  }
+
+  getOperatorDelegatedInCycle(operator: Principal, rewardCycle: number): Read<M, bigint> {
+    return this.read("get-operator-delegated-in-cycle", [
+      encodePrincipal(operator),
+      types.uint(rewardCycle)
+    ], asUint);
   }
 
-  getStackedInCycle(miner: Account, rewardCycle: number): Result {
-    return this.callReadOnlyFn("get-stacked-in-cycle", [
-      types.principal(miner.address),
+  getMemberDelegatedInCycle(member: Principal, rewardCycle: number): Read<M, bigint> {
+    return this.read("get-member-delegated-in-cycle", [
+      encodePrincipal(member),
       types.uint(rewardCycle)
-    ]);
+    ], asUint);
   }
 
-  getTokensPerCycle(rewardCycle: number): Result {
-    return this.callReadOnlyFn("get-tokens-per-cycle", [
+  /**
+   * Returns how many of the uSTX the pool operator can claim for the reward cycle are owed to the pool member.
+   */
+  getPoolMemberReward(operator: Principal, member: Principal, targetRewardCycle: number): Read<M, bigint> {
+    return this.read("get-pool-member-reward", [
+      encodePrincipal(operator),
+      encodePrincipal(member),
+      types.uint(targetRewardCycle)
+    ], asUint);
+  }
+
+  getTokensPerCycle(rewardCycle: number): Read<M, CycleTotals> {
+    return this.read("get-tokens-per-cycle", [
       types.uint(rewardCycle)
-    ]);
+    ], decodeCycleTotals);
   }
 
-  getPoxLiteInfo(): Result {
-    return this.callReadOnlyFn("get-pox-lite-info");
+  getCycleStats(rewardCycle: number): Read<M, CycleStats> {
+    return this.read("get-cycle-stats", [
+      types.uint(rewardCycle)
+    ], decodeCycleStats);
+  }
+
+  getPoxLiteInfo(): Read<M, Result<PoxLiteInfo>> {
+    return this.read("get-pox-lite-info", [], (value) => decodeResult(value, decodePoxLiteInfo));
   }
 
-  getBlockCommitTotal(miners: MinersList): Result {
-    return this.callReadOnlyFn(
+  getBlockCommitTotal(miners: MinersList): Read<M, bigint> {
+    return this.read(
       "get-block-commit-total",
       [
         miners.convert()
-      ]
+      ],
+      asUint
     );
   }
 
-  getBlockWinner(randomSampleUint: number, miners: MinersList): Result {
-    return this.callReadOnlyFn(
+  /**
+   * @param randomSampleUint e.g. the result of `getRandomUintAtBlock()`
+   * @param miners either a list built by hand, or the result of `getMinersAtBlock()`
+   */
+  getBlockWinner(randomSampleUint: number | bigint, miners: MinersList | MinerCommit[]): Read<M, MinerCommit | null> {
+    return this.read(
       "get-block-winner",
       [
-        types.uint(randomSampleUint),
-        miners.convert()
-      ]
-    )
+        encodeUint(randomSampleUint),
+        miners instanceof MinersList ? miners.convert() : encodeMinerCommits(miners)
+      ],
+      (value) => asOptional(value, decodeMinerCommit)
+    );
   }
 
-  hasMinedInList(miner: Account, miners: MinersList): Result {
-    return this.callReadOnlyFn(
-      "has-mined-in-list",
+  hasMinedAtBlock(miner: Principal, stacksBlockHeight: number): Read<M, boolean> {
+    return this.read(
+      "has-mined-at-block",
       [
-        types.principal(miner.address),
-        miners.convert()
-      ]
+        encodePrincipal(miner),
+        types.uint(stacksBlockHeight)
+      ],
+      asBool
+    );
+  }
+
+  /**
+   * Checks the miner's own commitment bounds against the sample, without going through the block's other miners.
+   *
+   * @param randomSampleUint e.g. the result of `getRandomUintAtBlock()`
+   */
+  isBlockWinner(miner: Principal, stacksBlockHeight: number, randomSampleUint: number | bigint): Read<M, boolean> {
+    return this.read(
+      "is-block-winner",
+      [
+        encodePrincipal(miner),
+        types.uint(stacksBlockHeight),
+        encodeUint(randomSampleUint)
+      ],
+      asBool
     );
   }
 
+  /**
+   * @param randomSample e.g. the result of `getRandomUintAtBlock()`
+   */
   canClaimTokens(
-    claimer: Account,
+    claimer: Principal,
     claimerStacksBlockHeight: number,
-    randomSample: number,
-    minersRec: MinersRec,
+    randomSample: number | bigint,
     currentStacksBlock: number
-  ): Result {
-    return this.callReadOnlyFn(
+  ): Read<M, Result<boolean>> {
+    return this.read(
       'can-claim-tokens',
       [
-        types.principal(claimer.address),
+        encodePrincipal(claimer),
         types.uint(claimerStacksBlockHeight),
-        types.uint(randomSample),
-        minersRec.convert(),
+        encodeUint(randomSample),
         types.uint(currentStacksBlock)
-      ]
+      ],
+      (value) => decodeResult(value, asBool)
     );
   }
 
   canMineTokens(
-    minerId: Account,
+    minerId: Principal,
     stacksBlockHeight: number,
-    amountUstx: number,
-    minersRec: MinersRec
-  ): Result {
-    return this.callReadOnlyFn(
+    amountUstx: number
+  ): Read<M, Result<boolean>> {
+    return this.read(
       "can-mine-tokens",
       [
-        types.principal(minerId.address),
+        encodePrincipal(minerId),
         types.uint(stacksBlockHeight),
-        types.uint(amountUstx),
-        minersRec.convert()
-      ]
+        types.uint(amountUstx)
+      ],
+      (value) => decodeResult(value, asBool)
     );
   }
 
   canStackTokens(
-    stackerId: Account,
+    stackerId: Principal,
     amountTokens: number,
     nowStacksHeight: number,
     startStacksHeight: number,
     lockPeriod: number
-  ): Result {
-    return this.callReadOnlyFn(
+  ): Read<M, Result<boolean>> {
+    return this.read(
       "can-stack-tokens",
       [
-        types.principal(stackerId.address),
+        encodePrincipal(stackerId),
+        types.uint(amountTokens),
+        types.uint(nowStacksHeight),
+        types.uint(startStacksHeight),
+        types.uint(lockPeriod)
+      ],
+      (value) => decodeResult(value, asBool)
+    );
+  }
+
+  canExtendStacking(stackerId: Principal, nowStacksHeight: number, lockPeriod: number): Read<M, Result<boolean>> {
+    return this.read(
+      "can-extend-stacking",
+      [
+        encodePrincipal(stackerId),
+        types.uint(nowStacksHeight),
+        types.uint(lockPeriod)
+      ],
+      (value) => decodeResult(value, asBool)
+    );
+  }
+
+  canIncreaseStacking(stackerId: Principal, amountTokens: number, nowStacksHeight: number): Read<M, Result<boolean>> {
+    return this.read(
+      "can-increase-stacking",
+      [
+        encodePrincipal(stackerId),
+        types.uint(amountTokens),
+        types.uint(nowStacksHeight)
+      ],
+      (value) => decodeResult(value, asBool)
+    );
+  }
+
+  canDelegateStackTokens(
+    operator: Principal,
+    member: Principal,
+    amountTokens: number,
+    nowStacksHeight: number,
+    startStacksHeight: number,
+    lockPeriod: number
+  ): Read<M, Result<boolean>> {
+    return this.read(
+      "can-delegate-stack-tokens",
+      [
+        encodePrincipal(operator),
+        encodePrincipal(member),
         types.uint(amountTokens),
         types.uint(nowStacksHeight),
         types.uint(startStacksHeight),
         types.uint(lockPeriod)
-      ]
+      ],
+      (value) => decodeResult(value, asBool)
     );
   }
 
   getEntitledStackingReward(
-    stackerId: Account,
+    stackerId: Principal,
     targetRewardCycle: number,
     currentBlockHeight: number
-  ): Result {
-    return this.callReadOnlyFn(
+  ): Read<M, bigint> {
+    return this.read(
       "get-entitled-stacking-reward",
       [
-        types.principal(stackerId.address),
+        encodePrincipal(stackerId),
         types.uint(targetRewardCycle),
         types.uint(currentBlockHeight)
       ],
-    )
+      asUint
+    );
+  }
+
+  /**
+   * Returns how many uSTX the Stacker can still claim over the reward cycles `fromCycle` through `toCycle`.
+   * The contract only considers the first 32 cycles of the range.
+   */
+  getUnclaimedStackingRewards(stacker: Principal, fromCycle: number, toCycle: number): Read<M, bigint> {
+    return this.read("get-unclaimed-stacking-rewards", [
+      encodePrincipal(stacker),
+      types.uint(fromCycle),
+      types.uint(toCycle)
+    ], asUint);
   }
 
-  getRewardCycle(stacksBlockHeight: number): Result {
-    return this.callReadOnlyFn(
+  getRewardCycle(stacksBlockHeight: number): Read<M, bigint | null> {
+    return this.read(
       "get-reward-cycle",
       [
         types.uint(stacksBlockHeight)
-      ]
-    )
+      ],
+      (value) => asOptional(value, asUint)
+    );
   }
 
-  getFirstBlockHeightInRewardCycle(rewardCycle: number): Result {
-    return this.callReadOnlyFn(
+  getFirstBlockHeightInRewardCycle(rewardCycle: number): Read<M, bigint> {
+    return this.read(
       "get-first-block-height-in-reward-cycle",
       [
         types.uint(rewardCycle)
-      ]
+      ],
+      asUint
     );
   }
 
-  getRandomUintAtBlock(stacksBlock: number): Result {
-    return this.callReadOnlyFn(
+  getRandomUintAtBlock(stacksBlock: number): Read<M, bigint | null> {
+    return this.read(
       "get-random-uint-at-block",
       [
         types.uint(stacksBlock)
-      ]
+      ],
+      (value) => asOptional(value, asUint)
     );
   }
 
+  getActivationStatus(): Read<M, ActivationStatus> {
+    return this.read("get-activation-status", [], decodeActivationStatus);
+  }
+
+  isMinerRegistered(miner: Principal): Read<M, boolean> {
+    return this.read("is-miner-registered", [
+      encodePrincipal(miner)
+    ], asBool);
+  }
+
+  getCityWalletInfo(): Read<M, CityWalletInfo> {
+    return this.read("get-city-wallet-info", [], decodeCityWalletInfo);
+  }
+
+  getCityUstxInCycle(rewardCycle: number): Read<M, bigint> {
+    return this.read("get-city-ustx-in-cycle", [
+      types.uint(rewardCycle)
+    ], asUint);
+  }
+
+  getCityUstxInBlock(stacksBlockHeight: number): Read<M, bigint> {
+    return this.read("get-city-ustx-in-block", [
+      types.uint(stacksBlockHeight)
+    ], asUint);
+  }
+
+  // the city's share of the commitments for blocks that have not been reached yet, which it can't withdraw
+  getCityPendingUstx(): Read<M, bigint> {
+    return this.read("get-city-pending-ustx", [], asUint);
+  }
+
+  getCitySplitPctInCycle(rewardCycle: number): Read<M, bigint> {
+    return this.read("get-city-split-pct-in-cycle", [
+      types.uint(rewardCycle)
+    ], asUint);
+  }
+
+  getContractStatus(): Read<M, ContractStatus> {
+    return this.read("get-contract-status", [], decodeContractStatus);
+  }
+
+  getProposalsCount(): Read<M, bigint> {
+    return this.read("get-proposals-count", [], asUint);
+  }
+
+  getProposal(proposalId: number): Read<M, Proposal | null> {
+    return this.read("get-proposal", [
+      types.uint(proposalId)
+    ], (value) => asOptional(value, decodeProposal));
+  }
+
+  getProposalVote(proposalId: number, voter: Principal): Read<M, ProposalVote | null> {
+    return this.read("get-proposal-vote", [
+      types.uint(proposalId),
+      encodePrincipal(voter)
+    ], (value) => asOptional(value, decodeProposalVote));
+  }
+
+  /**
+   * Returns the voter's votes on the reward cycle's proposals: the tokens they Stacked in it, less the pool members'
+   * tokens they Stacked as a pool operator, plus their own tokens pool operators Stacked for them.
+   */
+  getVotingPower(voter: Principal, rewardCycle: number): Read<M, bigint> {
+    return this.read("get-voting-power", [
+      encodePrincipal(voter),
+      types.uint(rewardCycle)
+    ], asUint);
+  }
+
+  getName(): Read<M, Result<string>> {
+    return this.read("get-name", [], (value) => decodeResult(value, asString));
+  }
+
+  getSymbol(): Read<M, Result<string>> {
+    return this.read("get-symbol", [], (value) => decodeResult(value, asString));
+  }
+
+  getDecimals(): Read<M, Result<bigint>> {
+    return this.read("get-decimals", [], (value) => decodeResult(value, asUint));
+  }
+
+  getBalance(user: Principal): Read<M, Result<bigint>> {
+    return this.read("get-balance", [
+      encodePrincipal(user)
+    ], (value) => decodeResult(value, asUint));
+  }
+
+  getTotalSupply(): Read<M, Result<bigint>> {
+    return this.read("get-total-supply", [], (value) => decodeResult(value, asUint));
+  }
+
+  getTokenUri(): Read<M, Result<string | null>> {
+    return this.read("get-token-uri", [], (value) => decodeResult(value, (uri) => asOptional(uri, asString)));
+  }
+}
+
+export class CityCoinClient extends CityCoinReader<"sync"> {
+  contractName: string;
+  chain: Chain;
+  deployer: Account;
+
+  /**
+   * @param contract the name of the contract to call, or the config of the city whose generated contract to call
+   */
+  constructor(chain: Chain, deployer: Account, contract: string | CityConfig = "citycoin") {
+    const contractName = typeof contract === "string" ? contract : contract.contractName;
+    super(new ClarinetBackend(chain), `${deployer.address}.${contractName}`, deployer.address);
+    this.chain = chain;
+    this.deployer = deployer;
+    this.contractName = contractName;
+  }
+
+  public getContractAddress(): string {
+    return this.contractId;
+  }
+
+  /**
+   * Returns the typed events this contract printed, e.g. `client.parseEvents(block.receipts[0].events)`.
+   */
+  parseEvents(events: ReceiptEvent[]): CityCoinEvent[] {
+    return parseCityCoinEvents(events, this.getContractAddress());
+  }
+
+  /**
+   * Mints token to make testing easier.
+   * 
+   * @param amount 
+   * @param recipient 
+   */
+  ftMint(amount: number, recipient: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "ft-mint",
+      [
+        types.uint(amount),
+        types.principal(recipient.address)
+      ],
+      this.deployer.address
+    );
+  }
+
+  // read only functions
+
+  /**
+   * Ranks the given miners by one of their statistics, highest first.  Miners with the same value keep their order.
+   */
+  getMinerLeaderboard(miners: Account[], rankBy: keyof MinerStats = "blocksWon"): MinerRanking[] {
+    return miners
+      .map((miner) => ({ miner: miner.address, stats: this.getMinerStats(miner) }))
+      .sort((a, b) => a.stats[rankBy] === b.stats[rankBy] ? 0 : (a.stats[rankBy] > b.stats[rankBy] ? -1 : 1));
+  }
+
   // public functions
 
   stackTokens(amountTokens: number, startStacksHeight: number, lockPeriod: number, sender: Account): Tx {
@@ -242,6 +1037,67 @@ export class CityCoinClient {
     );
   }
 
+  extendStacking(lockPeriod: number, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "extend-stacking",
+      [
+        types.uint(lockPeriod)
+      ],
+      sender.address
+    );
+  }
+
+  increaseStacking(amountTokens: number, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "increase-stacking",
+      [
+        types.uint(amountTokens)
+      ],
+      sender.address
+    );
+  }
+
+  /**
+   * @param untilStacksHeight the Stacks block height at which the delegation expires, or null to delegate until revoked
+   */
+  delegateStacking(operator: Account, amountTokens: number, untilStacksHeight: number | null, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "delegate-stacking",
+      [
+        types.principal(operator.address),
+        types.uint(amountTokens),
+        untilStacksHeight === null ? types.none() : types.some(types.uint(untilStacksHeight))
+      ],
+      sender.address
+    );
+  }
+
+  revokeDelegation(sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "revoke-delegation",
+      [],
+      sender.address
+    );
+  }
+
+  delegateStackTokens(member: Account, amountTokens: number, startStacksHeight: number, lockPeriod: number, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "delegate-stack-tokens",
+      [
+        types.principal(member.address),
+        types.uint(amountTokens),
+        types.uint(startStacksHeight),
+        types.uint(lockPeriod)
+      ],
+      sender.address
+    );
+  }
+
   mineTokens(amountUstx: number, sender: Account): Tx {
     return Tx.contractCall(
       this.contractName,
@@ -253,6 +1109,28 @@ export class CityCoinClient {
     );
   }
 
+  mineMany(amounts: number[], sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "mine-many",
+      [
+        types.list(amounts.map((amount) => types.uint(amount)))
+      ],
+      sender.address
+    );
+  }
+
+  cancelMining(fromStacksBlockHeight: number, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "cancel-mining",
+      [
+        types.uint(fromStacksBlockHeight)
+      ],
+      sender.address
+    );
+  }
+
   claimTokenReward(minedStacksBlockHeight: number, sender: Account): Tx {
     return Tx.contractCall(
       this.contractName,
@@ -264,6 +1142,21 @@ export class CityCoinClient {
     );
   }
 
+  /**
+   * Claims the block rewards of up to 200 blocks at once.  The receipt's result holds the
+   * outcome of each claim, in the same order as `minedStacksBlockHeights`.
+   */
+  claimTokenRewards(minedStacksBlockHeights: number[], sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "claim-token-rewards",
+      [
+        types.list(minedStacksBlockHeights.map((height) => types.uint(height)))
+      ],
+      sender.address
+    );
+  }
+
   claimStackingReward(targetRewardCycle: number, sender: Account): Tx {
     return Tx.contractCall(
       this.contractName,
@@ -275,6 +1168,26 @@ export class CityCoinClient {
     );
   }
 
+  claimStackingRewards(targetRewardCycles: number[], sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "claim-stacking-rewards",
+      [
+        types.list(targetRewardCycles.map((cycle) => types.uint(cycle)))
+      ],
+      sender.address
+    );
+  }
+
+  claimUnlockedTokens(sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "claim-unlocked-tokens",
+      [],
+      sender.address
+    );
+  }
+
   registerMiner(sender: Account): Tx {
     return Tx.contractCall(
       this.contractName,
@@ -284,57 +1197,160 @@ export class CityCoinClient {
     )
   }
 
-  // SIP-010 functions
+  setCityWallet(newCityWallet: Account, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "set-city-wallet",
+      [
+        types.principal(newCityWallet.address)
+      ],
+      sender.address
+    );
+  }
 
-  transfer(amount: number, from: Account, to: Account, sender: Account): Tx {
+  // only the contract admin can change the split
+  setCityWalletSplitPct(splitPct: number, sender: Account): Tx {
     return Tx.contractCall(
       this.contractName,
-      "transfer",
+      "set-city-wallet-split-pct",
       [
-        types.uint(amount),
-        types.principal(from.address),
-        types.principal(to.address)
+        types.uint(splitPct)
       ],
       sender.address
     );
   }
 
-  getName(): Result {
-    return this.callReadOnlyFn("get-name");
+  withdrawCityFunds(amountUstx: number, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "withdraw-city-funds",
+      [
+        types.uint(amountUstx)
+      ],
+      sender.address
+    );
   }
 
-  getSymbol(): Result {
-    return this.callReadOnlyFn("get-symbol");
+  /**
+   * Proposes to spend the city's uSTX or to rotate the city wallet.  The receipt's result holds the new proposal's id.
+   *
+   * @param amountUstx how many uSTX to send to `recipient` (ignored by ProposalKind.SET_CITY_WALLET)
+   */
+  createProposal(kind: ProposalKind, amountUstx: number, recipient: Account, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "create-proposal",
+      [
+        types.uint(kind),
+        types.uint(amountUstx),
+        types.principal(recipient.address)
+      ],
+      sender.address
+    );
   }
 
-  getDecimals(): Result {
-    return this.callReadOnlyFn("get-decimals");
+  vote(proposalId: number, inFavor: boolean, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "vote",
+      [
+        types.uint(proposalId),
+        types.bool(inFavor)
+      ],
+      sender.address
+    );
+  }
+
+  executeProposal(proposalId: number, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "execute-proposal",
+      [
+        types.uint(proposalId)
+      ],
+      sender.address
+    );
   }
 
-  getBalanceOf(user: Account): Result {
-    return this.callReadOnlyFn("get-balance-of", [
-      types.principal(user.address)
-    ])
+  setContractAdmin(newAdmin: Account, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "set-contract-admin",
+      [
+        types.principal(newAdmin.address)
+      ],
+      sender.address
+    );
   }
 
-  getTotalSupply(): Result {
-    return this.callReadOnlyFn("get-total-supply");
+  setMiningPaused(paused: boolean, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "set-mining-paused",
+      [
+        types.bool(paused)
+      ],
+      sender.address
+    );
   }
 
-  getTokenUri(): Result {
-    return this.callReadOnlyFn("get-token-uri");
+  setStackingPaused(paused: boolean, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "set-stacking-paused",
+      [
+        types.bool(paused)
+      ],
+      sender.address
+    );
+  }
+
+  shutdownContract(sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "shutdown-contract",
+      [],
+      sender.address
+    );
+  }
+
+  // SIP-010 functions
+
+  transfer(amount: number, from: Account, to: Account, sender: Account, memo?: ArrayBuffer): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "transfer",
+      [
+        types.uint(amount),
+        types.principal(from.address),
+        types.principal(to.address),
+        memo ? types.some(types.buff(memo)) : types.none()
+      ],
+      sender.address
+    );
+  }
+
+  setTokenUri(tokenUri: string | null, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "set-token-uri",
+      [
+        tokenUri === null ? types.none() : types.some(types.utf8(tokenUri))
+      ],
+      sender.address
+    );
   }
 }
 
-export interface MinerCommit {
+export interface MinerEntry {
   miner: Account,
   amountUstx: number
 }
 
-export class MinersList extends Array<MinerCommit> {
+export class MinersList extends Array<MinerEntry> {
   convert(): string {
-    if (this.length > 32) {
-      throw new Error("Miners list can't have more than 32 elements.")
+    if (this.length > MAX_MINERS_PER_BLOCK) {
+      throw new Error(`Miners list can't have more than ${MAX_MINERS_PER_BLOCK} elements.`)
     }
 
     let miners = this.map(minerCommit => {
@@ -347,28 +1363,11 @@ export class MinersList extends Array<MinerCommit> {
     return types.list(miners)
   }
 
-  getFormatted(index: number) {
+  getFormatted(index: number): MinerCommit {
     let item = this[index];
     return {
-      "miner": item.miner.address,
-      "amount-ustx": types.uint(item.amountUstx)
+      miner: item.miner.address,
+      amountUstx: BigInt(item.amountUstx)
     }
   }
 }
-
-export class MinersRec {
-  miners: MinersList;
-  claimed: boolean;
-
-  constructor(miners: MinersList, claimed: boolean) {
-    this.claimed = claimed;
-    this.miners = miners;
-  }
-
-  convert(): string {
-    return types.tuple({
-      miners: this.miners.convert(),
-      claimed: types.bool(this.claimed)
-    });
-  }
-}
\ No newline at end of file
@@ -0,0 +1,437 @@
+// Typed view of the events printed by the contract's public functions.
+// See the "Events" section in README.md for the schema.
+
+import {
+  ClarityResponse,
+  ClaritySome,
+  ClarityTuple,
+  ClarityValue,
+  decodeClarityValue,
+  asUint,
+  asBool,
+  asString,
+  asOptional
+} from './clarity-decoder.ts';
+
+export const EVENT_SCHEMA_VERSION = 1;
+
+export interface RegisterEvent {
+  event: "register",
+  version: bigint,
+  miner: string,
+  registeredMiners: bigint,
+  activationBlock: bigint | null
+}
+
+// printed once per block by mine-tokens and mine-many
+export interface MineEvent {
+  event: "mine",
+  version: bigint,
+  miner: string,
+  height: bigint,
+  amountUstx: bigint,
+  cycle: bigint
+}
+
+// printed once per block by cancel-mining
+export interface CancelMineEvent {
+  event: "cancel-mine",
+  version: bigint,
+  miner: string,
+  height: bigint,
+  amountUstx: bigint,
+  cycle: bigint
+}
+
+export interface StackEvent {
+  event: "stack",
+  version: bigint,
+  stacker: string,
+  amountToken: bigint,
+  firstCycle: bigint,
+  lockPeriod: bigint
+}
+
+// printed by extend-stacking, for the reward cycles the Stacker's locked tokens are added to
+export interface ExtendStackingEvent {
+  event: "extend-stacking",
+  version: bigint,
+  stacker: string,
+  amountToken: bigint,
+  firstCycle: bigint,
+  lockPeriod: bigint
+}
+
+// printed by increase-stacking, for the reward cycles the new tokens are Stacked in
+export interface IncreaseStackingEvent {
+  event: "increase-stacking",
+  version: bigint,
+  stacker: string,
+  amountToken: bigint,
+  firstCycle: bigint,
+  lockPeriod: bigint
+}
+
+// printed by delegate-stacking; untilHeight is null if the delegation lasts until revoked
+export interface DelegateStackingEvent {
+  event: "delegate-stacking",
+  version: bigint,
+  stacker: string,
+  operator: string,
+  amountToken: bigint,
+  untilHeight: bigint | null
+}
+
+export interface RevokeDelegationEvent {
+  event: "revoke-delegation",
+  version: bigint,
+  stacker: string,
+  operator: string
+}
+
+// printed by delegate-stack-tokens, for the pool member whose tokens the operator Stacked
+export interface DelegateStackTokensEvent {
+  event: "delegate-stack-tokens",
+  version: bigint,
+  operator: string,
+  stacker: string,
+  amountToken: bigint,
+  firstCycle: bigint,
+  lockPeriod: bigint
+}
+
+export interface ClaimTokenRewardEvent {
+  event: "claim-token-reward",
+  version: bigint,
+  miner: string,
+  height: bigint,
+  amountToken: bigint
+}
+
+export interface ClaimStackingRewardEvent {
+  event: "claim-stacking-reward",
+  version: bigint,
+  stacker: string,
+  cycle: bigint,
+  amountUstx: bigint
+}
+
+export interface ClaimUnlockedTokensEvent {
+  event: "claim-unlocked-tokens",
+  version: bigint,
+  stacker: string,
+  amountToken: bigint
+}
+
+export interface SetCityWalletEvent {
+  event: "set-city-wallet",
+  version: bigint,
+  cityWallet: string
+}
+
+export interface SetCityWalletSplitPctEvent {
+  event: "set-city-wallet-split-pct",
+  version: bigint,
+  splitPct: bigint
+}
+
+export interface WithdrawCityFundsEvent {
+  event: "withdraw-city-funds",
+  version: bigint,
+  cityWallet: string,
+  amountUstx: bigint
+}
+
+export interface SetTokenUriEvent {
+  event: "set-token-uri",
+  version: bigint,
+  tokenUri: string | null
+}
+
+export interface CreateProposalEvent {
+  event: "create-proposal",
+  version: bigint,
+  proposalId: bigint,
+  proposer: string,
+  kind: bigint,
+  amountUstx: bigint,
+  recipient: string,
+  endHeight: bigint
+}
+
+// amountToken is the voter's weight: the tokens they Stacked in the proposal's reward cycle
+export interface VoteEvent {
+  event: "vote",
+  version: bigint,
+  proposalId: bigint,
+  voter: string,
+  inFavor: boolean,
+  amountToken: bigint
+}
+
+export interface ExecuteProposalEvent {
+  event: "execute-proposal",
+  version: bigint,
+  proposalId: bigint,
+  kind: bigint,
+  amountUstx: bigint,
+  recipient: string
+}
+
+export interface SetContractAdminEvent {
+  event: "set-contract-admin",
+  version: bigint,
+  admin: string
+}
+
+// printed by set-mining-paused and set-stacking-paused, with what is paused afterwards
+export interface SetPausedEvent {
+  event: "set-paused",
+  version: bigint,
+  miningPaused: boolean,
+  stackingPaused: boolean
+}
+
+export interface ShutdownEvent {
+  event: "shutdown",
+  version: bigint,
+  height: bigint
+}
+
+export type CityCoinEvent =
+  | RegisterEvent
+  | MineEvent
+  | CancelMineEvent
+  | StackEvent
+  | ExtendStackingEvent
+  | IncreaseStackingEvent
+  | DelegateStackingEvent
+  | RevokeDelegationEvent
+  | DelegateStackTokensEvent
+  | ClaimTokenRewardEvent
+  | ClaimStackingRewardEvent
+  | ClaimUnlockedTokensEvent
+  | SetCityWalletEvent
+  | SetCityWalletSplitPctEvent
+  | WithdrawCityFundsEvent
+  | SetTokenUriEvent
+  | CreateProposalEvent
+  | VoteEvent
+  | ExecuteProposalEvent
+  | SetContractAdminEvent
+  | SetPausedEvent
+  | ShutdownEvent;
+
+// the parts of a Clarinet receipt event we care about
+export interface ReceiptEvent {
+  type: string,
+  contract_event?: {
+    contract_identifier: string,
+    topic: string,
+    value: string
+  }
+}
+
+function decodeFields(name: string, version: bigint, tuple: ClarityTuple): CityCoinEvent | null {
+  switch (name) {
+    case "register":
+      return {
+        event: name,
+        version,
+        miner: asString(tuple["miner"]),
+        registeredMiners: asUint(tuple["registered-miners"]),
+        activationBlock: asOptional(tuple["activation-block"], asUint)
+      };
+    case "mine":
+    case "cancel-mine":
+      return {
+        event: name,
+        version,
+        miner: asString(tuple["miner"]),
+        height: asUint(tuple["height"]),
+        amountUstx: asUint(tuple["amount-ustx"]),
+        cycle: asUint(tuple["cycle"])
+      };
+    case "stack":
+    case "extend-stacking":
+    case "increase-stacking":
+      return {
+        event: name,
+        version,
+        stacker: asString(tuple["stacker"]),
+        amountToken: asUint(tuple["amount-token"]),
+        firstCycle: asUint(tuple["first-cycle"]),
+        lockPeriod: asUint(tuple["lock-period"])
+      };
+    case "delegate-stacking":
+      return {
+        event: name,
+        version,
+        stacker: asString(tuple["stacker"]),
+        operator: asString(tuple["operator"]),
+        amountToken: asUint(tuple["amount-token"]),
+        untilHeight: asOptional(tuple["until-height"], asUint)
+      };
+    case "revoke-delegation":
+      return {
+        event: name,
+        version,
+        stacker: asString(tuple["stacker"]),
+        operator: asString(tuple["operator"])
+      };
+    case "delegate-stack-tokens":
+      return {
+        event: name,
+        version,
+        operator: asString(tuple["operator"]),
+        stacker: asString(tuple["stacker"]),
+        amountToken: asUint(tuple["amount-token"]),
+        firstCycle: asUint(tuple["first-cycle"]),
+        lockPeriod: asUint(tuple["lock-period"])
+      };
+    case "claim-token-reward":
+      return {
+        event: name,
+        version,
+        miner: asString(tuple["miner"]),
+        height: asUint(tuple["height"]),
+        amountToken: asUint(tuple["amount-token"])
+      };
+    case "claim-stacking-reward":
+      return {
+        event: name,
+        version,
+        stacker: asString(tuple["stacker"]),
+        cycle: asUint(tuple["cycle"]),
+        amountUstx: asUint(tuple["amount-ustx"])
+      };
+    case "claim-unlocked-tokens":
+      return {
+        event: name,
+        version,
+        stacker: asString(tuple["stacker"]),
+        amountToken: asUint(tuple["amount-token"])
+      };
+    case "set-city-wallet":
+      return {
+        event: name,
+        version,
+        cityWallet: asString(tuple["city-wallet"])
+      };
+    case "set-city-wallet-split-pct":
+      return {
+        event: name,
+        version,
+        splitPct: asUint(tuple["split-pct"])
+      };
+    case "withdraw-city-funds":
+      return {
+        event: name,
+        version,
+        cityWallet: asString(tuple["city-wallet"]),
+        amountUstx: asUint(tuple["amount-ustx"])
+      };
+    case "set-token-uri":
+      return {
+        event: name,
+        version,
+        tokenUri: asOptional(tuple["token-uri"], asString)
+      };
+    case "create-proposal":
+      return {
+        event: name,
+        version,
+        proposalId: asUint(tuple["proposal-id"]),
+        proposer: asString(tuple["proposer"]),
+        kind: asUint(tuple["kind"]),
+        amountUstx: asUint(tuple["amount-ustx"]),
+        recipient: asString(tuple["recipient"]),
+        endHeight: asUint(tuple["end-height"])
+      };
+    case "vote":
+      return {
+        event: name,
+        version,
+        proposalId: asUint(tuple["proposal-id"]),
+        voter: asString(tuple["voter"]),
+        inFavor: asBool(tuple["in-favor"]),
+        amountToken: asUint(tuple["amount-token"])
+      };
+    case "execute-proposal":
+      return {
+        event: name,
+        version,
+        proposalId: asUint(tuple["proposal-id"]),
+        kind: asUint(tuple["kind"]),
+        amountUstx: asUint(tuple["amount-ustx"]),
+        recipient: asString(tuple["recipient"])
+      };
+    case "set-contract-admin":
+      return {
+        event: name,
+        version,
+        admin: asString(tuple["admin"])
+      };
+    case "set-paused":
+      return {
+        event: name,
+        version,
+        miningPaused: asBool(tuple["mining-paused"]),
+        stackingPaused: asBool(tuple["stacking-paused"])
+      };
+    case "shutdown":
+      return {
+        event: name,
+        version,
+        height: asUint(tuple["height"])
+      };
+  }
+  return null;
+}
+
+/**
+ * Decodes a printed value into a typed event.
+ * Returns null for anything that isn't an event tuple (e.g. a transfer memo) or has an unknown name.
+ * Throws if a known event doesn't match its schema.
+ *
+ * @param value decoded Clarity value of a print event
+ */
+export function decodeCityCoinEvent(value: ClarityValue): CityCoinEvent | null {
+  if (value === null || typeof value !== "object" || Array.isArray(value)
+    || value instanceof Uint8Array || value instanceof ClarityResponse || value instanceof ClaritySome) {
+    return null;
+  }
+
+  const tuple = value as ClarityTuple;
+  if (typeof tuple["event"] !== "string" || typeof tuple["version"] !== "bigint") {
+    return null;
+  }
+
+  return decodeFields(tuple["event"], tuple["version"], tuple);
+}
+
+/**
+ * Pulls the typed events printed by a given contract out of a receipt's events, in order.
+ *
+ * @param events `block.receipts[i].events`
+ * @param contractId fully qualified contract identifier, e.g. `ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE.citycoin`
+ */
+export function parseCityCoinEvents(events: ReceiptEvent[], contractId: string): CityCoinEvent[] {
+  const result: CityCoinEvent[] = [];
+
+  for (const e of events) {
+    if (e.type !== "contract_event" || !e.contract_event) {
+      continue;
+    }
+    if (e.contract_event.contract_identifier !== contractId || !e.contract_event.topic.endsWith("print")) {
+      continue;
+    }
+
+    const event = decodeCityCoinEvent(decodeClarityValue(e.contract_event.value));
+    if (event !== null) {
+      result.push(event);
+    }
+  }
+
+  return result;
+}
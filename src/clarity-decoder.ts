@@ -0,0 +1,321 @@
+// Decoder for the Clarity value representation returned by Clarinet
+// (e.g. `(ok {reward-cycle-id: u1, total-supply: u100})`).
+//
+// Mapping to JS values:
+//  * int, uint             -> bigint
+//  * bool                  -> boolean
+//  * principal             -> string
+//  * string-ascii/utf8     -> string
+//  * buff                  -> Uint8Array
+//  * none / (some x)       -> null / x, except that (some x) is a ClaritySome when x is itself an
+//                             optional, so that (some none) doesn't decode to the same value as none
+//  * list                  -> Array
+//  * tuple                 -> object with the original (kebab-case) keys
+//  * (ok x) / (err x)      -> ClarityResponse
+
+export type ClarityValue =
+  | bigint
+  | boolean
+  | string
+  | Uint8Array
+  | null
+  | ClarityValue[]
+  | ClarityTuple
+  | ClarityResponse
+  | ClaritySome;
+
+export interface ClarityTuple {
+  [key: string]: ClarityValue
+}
+
+export class ClarityResponse {
+  isOk: boolean;
+  value: ClarityValue;
+
+  constructor(isOk: boolean, value: ClarityValue) {
+    this.isOk = isOk;
+    this.value = value;
+  }
+}
+
+// (some x) where x is itself an optional, e.g. (some none)
+export class ClaritySome {
+  value: ClarityValue;
+
+  constructor(value: ClarityValue) {
+    this.value = value;
+  }
+}
+
+class Parser {
+  private pos: number = 0;
+  private src: string;
+
+  constructor(src: string) {
+    this.src = src;
+  }
+
+  parse(): ClarityValue {
+    const value = this.parseValue();
+    this.skipWhitespace();
+    if (this.pos !== this.src.length) {
+      this.fail("unexpected trailing input");
+    }
+    return value;
+  }
+
+  private parseValue(): ClarityValue {
+    this.skipWhitespace();
+    const ch = this.src.charAt(this.pos);
+
+    if (ch === "(") {
+      return this.parseWrapped();
+    }
+    if (ch === "[") {
+      return this.parseList();
+    }
+    if (ch === "{") {
+      return this.parseTuple();
+    }
+    if (ch === '"') {
+      return this.parseString();
+    }
+    if (ch === "u" && this.src.charAt(this.pos + 1) === '"') {
+      this.pos++;
+      return this.parseString();
+    }
+    if (ch === "'") {
+      this.pos++;
+      return this.parsePrincipal();
+    }
+
+    const token = this.peekToken();
+    if (token === "true" || token === "false" || token === "none") {
+      this.pos += token.length;
+      return token === "none" ? null : token === "true";
+    }
+    if (/^0x[0-9a-fA-F]*$/.test(token)) {
+      this.pos += token.length;
+      return hexToBytes(token.substring(2));
+    }
+    if (/^u[0-9]+$/.test(token)) {
+      this.pos += token.length;
+      return BigInt(token.substring(1));
+    }
+    if (/^-?[0-9]+$/.test(token)) {
+      this.pos += token.length;
+      return BigInt(token);
+    }
+    if (/^S[0-9A-Z]+(\.[a-zA-Z0-9_-]+)?$/.test(token)) {
+      return this.parsePrincipal();
+    }
+
+    return this.fail(`unexpected token '${token}'`);
+  }
+
+  // (ok x), (err x), (some x)
+  private parseWrapped(): ClarityValue {
+    this.expect("(");
+    const keyword = this.peekToken();
+    this.pos += keyword.length;
+
+    this.skipWhitespace();
+    const innerIsOptional = /^(none\b|\(\s*some\b)/.test(this.src.substring(this.pos));
+    const inner = this.parseValue();
+    this.skipWhitespace();
+    this.expect(")");
+
+    switch (keyword) {
+      case "ok": return new ClarityResponse(true, inner);
+      case "err": return new ClarityResponse(false, inner);
+      case "some": return innerIsOptional ? new ClaritySome(inner) : inner;
+    }
+    return this.fail(`unknown wrapper '${keyword}'`);
+  }
+
+  private parseList(): ClarityValue[] {
+    this.expect("[");
+    const items: ClarityValue[] = [];
+
+    this.skipWhitespace();
+    while (this.src.charAt(this.pos) !== "]") {
+      items.push(this.parseValue());
+      this.skipSeparator();
+    }
+    this.expect("]");
+
+    return items;
+  }
+
+  private parseTuple(): ClarityTuple {
+    this.expect("{");
+    const tuple: ClarityTuple = {};
+
+    this.skipWhitespace();
+    while (this.src.charAt(this.pos) !== "}") {
+      const key = this.peekToken().replace(/:$/, "");
+      this.pos += key.length;
+      this.skipWhitespace();
+      this.expect(":");
+      tuple[key] = this.parseValue();
+      this.skipSeparator();
+    }
+    this.expect("}");
+
+    return tuple;
+  }
+
+  private parseString(): string {
+    this.expect('"');
+    let result = "";
+
+    while (this.pos < this.src.length) {
+      const ch = this.src.charAt(this.pos++);
+      if (ch === '"') {
+        return result;
+      }
+      if (ch === "\\") {
+        const escaped = this.src.charAt(this.pos++);
+        result += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+      } else {
+        result += ch;
+      }
+    }
+
+    return this.fail("unterminated string");
+  }
+
+  private parsePrincipal(): string {
+    const token = this.peekToken();
+    if (!/^S[0-9A-Z]+(\.[a-zA-Z0-9_-]+)?$/.test(token)) {
+      this.fail(`invalid principal '${token}'`);
+    }
+    this.pos += token.length;
+    return token;
+  }
+
+  private peekToken(): string {
+    const match = /^[^\s,()\[\]{}"]+/.exec(this.src.substring(this.pos));
+    return match ? match[0] : "";
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.src.charAt(this.pos))) {
+      this.pos++;
+    }
+  }
+
+  private skipSeparator() {
+    this.skipWhitespace();
+    if (this.src.charAt(this.pos) === ",") {
+      this.pos++;
+    }
+    this.skipWhitespace();
+  }
+
+  private expect(ch: string) {
+    if (this.src.charAt(this.pos) !== ch) {
+      this.fail(`expected '${ch}'`);
+    }
+    this.pos++;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Unable to decode Clarity value: ${message} at position ${this.pos} in '${this.src}'`);
+  }
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Decodes a Clarity value as returned by Clarinet into plain JS values.
+ *
+ * @param repr Clarity value representation, e.g. `(some u100)`
+ */
+export function decodeClarityValue(repr: string): ClarityValue {
+  return new Parser(repr).parse();
+}
+
+// typed accessors, throwing when the decoded value doesn't have the expected shape
+
+export function asUint(value: ClarityValue): bigint {
+  if (typeof value !== "bigint") {
+    throw new Error(`Expected integer, got ${describe(value)}`);
+  }
+  if (value < 0n) {
+    throw new Error(`Expected unsigned integer, got ${value}`);
+  }
+  return value;
+}
+
+export function asBool(value: ClarityValue): boolean {
+  if (typeof value !== "boolean") {
+    throw new Error(`Expected bool, got ${describe(value)}`);
+  }
+  return value;
+}
+
+export function asString(value: ClarityValue): string {
+  if (typeof value !== "string") {
+    throw new Error(`Expected string or principal, got ${describe(value)}`);
+  }
+  return value;
+}
+
+export function asList(value: ClarityValue): ClarityValue[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Expected list, got ${describe(value)}`);
+  }
+  return value;
+}
+
+export function asTuple(value: ClarityValue): ClarityTuple {
+  if (value === null || typeof value !== "object" || Array.isArray(value)
+    || value instanceof Uint8Array || value instanceof ClarityResponse || value instanceof ClaritySome) {
+    throw new Error(`Expected tuple, got ${describe(value)}`);
+  }
+  return value;
+}
+
+export function asResponse(value: ClarityValue): ClarityResponse {
+  if (!(value instanceof ClarityResponse)) {
+    throw new Error(`Expected response, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Maps (some x) onto `map(x)` and none onto null.  For a nested optional, `map` gets the inner optional, e.g.
+ * `asOptional(value, (inner) => ({ value: asOptional(inner, asUint) }))` tells (some none) and none apart.
+ */
+export function asOptional<T>(value: ClarityValue, map: (value: ClarityValue) => T): T | null {
+  if (value === null) {
+    return null;
+  }
+  return map(value instanceof ClaritySome ? value.value : value);
+}
+
+function describe(value: ClarityValue): string {
+  if (value === null) {
+    return "none";
+  }
+  if (value instanceof ClarityResponse) {
+    return value.isOk ? "(ok ...)" : "(err ...)";
+  }
+  if (value instanceof ClaritySome) {
+    return "(some ...)";
+  }
+  if (Array.isArray(value)) {
+    return "list";
+  }
+  if (value instanceof Uint8Array) {
+    return "buff";
+  }
+  return typeof value;
+}
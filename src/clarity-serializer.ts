@@ -0,0 +1,379 @@
+// Clarity's binary encoding (see SIP-005), as used by a Stacks node's RPC endpoints.
+//
+// Values go in as the Clarity representation built with Clarinet's `types.*` helpers (e.g. `types.uint(5)` is
+// `u5`), which unlike the decoded values keeps the exact type (uint vs int, ascii vs utf8 strings, ...).
+// Values come out decoded the same way `decodeClarityValue()` decodes Clarinet's results.
+
+import {
+  ClarityResponse,
+  ClaritySome,
+  ClarityTuple,
+  ClarityValue
+} from './clarity-decoder.ts';
+import {
+  c32Address,
+  c32AddressDecode
+} from './c32.ts';
+
+enum TypeId {
+  Int = 0x00,
+  Uint = 0x01,
+  Buffer = 0x02,
+  True = 0x03,
+  False = 0x04,
+  StandardPrincipal = 0x05,
+  ContractPrincipal = 0x06,
+  Ok = 0x07,
+  Err = 0x08,
+  None = 0x09,
+  Some = 0x0a,
+  List = 0x0b,
+  Tuple = 0x0c,
+  StringAscii = 0x0d,
+  StringUtf8 = 0x0e
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  u32(value: number) {
+    this.u8(value >>> 24);
+    this.u8(value >>> 16);
+    this.u8(value >>> 8);
+    this.u8(value);
+  }
+
+  // 128-bit big-endian, two's complement for negative values
+  u128(value: bigint) {
+    const unsigned = BigInt.asUintN(128, value);
+    for (let shift = 120n; shift >= 0n; shift -= 8n) {
+      this.u8(Number((unsigned >> shift) & 0xffn));
+    }
+  }
+
+  write(bytes: Uint8Array) {
+    bytes.forEach((byte) => this.u8(byte));
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+// Serializes Clarity representations into a ByteWriter, parsing as it goes.
+class ReprSerializer {
+  private pos: number = 0;
+  private src: string;
+  private out: ByteWriter = new ByteWriter();
+
+  constructor(src: string) {
+    this.src = src;
+  }
+
+  serialize(): Uint8Array {
+    this.value();
+    this.skipWhitespace();
+    if (this.pos !== this.src.length) {
+      this.fail("unexpected trailing input");
+    }
+    return this.out.toBytes();
+  }
+
+  private value() {
+    this.skipWhitespace();
+    const ch = this.src.charAt(this.pos);
+
+    if (ch === "(") {
+      return this.wrapped();
+    }
+    if (ch === "{") {
+      return this.tuple();
+    }
+    if (ch === '"') {
+      return this.string(TypeId.StringAscii);
+    }
+    if (ch === "u" && this.src.charAt(this.pos + 1) === '"') {
+      this.pos++;
+      return this.string(TypeId.StringUtf8);
+    }
+    if (ch === "'") {
+      this.pos++;
+      return this.principal(this.token());
+    }
+
+    const token = this.token();
+    if (token === "true" || token === "false") {
+      return this.out.u8(token === "true" ? TypeId.True : TypeId.False);
+    }
+    if (token === "none") {
+      return this.out.u8(TypeId.None);
+    }
+    if (/^0x([0-9a-fA-F]{2})*$/.test(token)) {
+      const bytes = hexToBytes(token.substring(2));
+      this.out.u8(TypeId.Buffer);
+      this.out.u32(bytes.length);
+      return this.out.write(bytes);
+    }
+    if (/^u[0-9]+$/.test(token)) {
+      this.out.u8(TypeId.Uint);
+      return this.out.u128(BigInt(token.substring(1)));
+    }
+    if (/^-?[0-9]+$/.test(token)) {
+      this.out.u8(TypeId.Int);
+      return this.out.u128(BigInt(token));
+    }
+
+    this.fail(`unexpected token '${token}'`);
+  }
+
+  // (ok x), (err x), (some x), (list x y ...)
+  private wrapped() {
+    this.expect("(");
+    const keyword = this.token();
+
+    if (keyword === "list") {
+      const start = this.out;
+      const items = new ByteWriter();
+      let count = 0;
+
+      this.out = items;
+      this.skipWhitespace();
+      while (this.src.charAt(this.pos) !== ")") {
+        this.value();
+        this.skipWhitespace();
+        count++;
+      }
+      this.out = start;
+
+      this.out.u8(TypeId.List);
+      this.out.u32(count);
+      this.out.write(items.toBytes());
+    } else {
+      const typeIds: { [keyword: string]: TypeId } = { ok: TypeId.Ok, err: TypeId.Err, some: TypeId.Some };
+      if (typeIds[keyword] === undefined) {
+        this.fail(`unknown wrapper '${keyword}'`);
+      }
+      this.out.u8(typeIds[keyword]);
+      this.value();
+      this.skipWhitespace();
+    }
+
+    this.expect(")");
+  }
+
+  // fields are serialized sorted by name, whatever order they were written in
+  private tuple() {
+    this.expect("{");
+    const start = this.out;
+    const fields: { name: string, bytes: Uint8Array }[] = [];
+
+    this.skipWhitespace();
+    while (this.src.charAt(this.pos) !== "}") {
+      const name = this.token().replace(/:$/, "");
+      this.skipWhitespace();
+      if (this.src.charAt(this.pos) === ":") {
+        this.pos++;
+      }
+
+      this.out = new ByteWriter();
+      this.value();
+      fields.push({ name, bytes: this.out.toBytes() });
+
+      this.skipWhitespace();
+      if (this.src.charAt(this.pos) === ",") {
+        this.pos++;
+      }
+      this.skipWhitespace();
+    }
+    this.expect("}");
+    this.out = start;
+
+    fields.sort((a, b) => a.name < b.name ? -1 : (a.name > b.name ? 1 : 0));
+    this.out.u8(TypeId.Tuple);
+    this.out.u32(fields.length);
+    for (const field of fields) {
+      this.out.u8(field.name.length);
+      this.out.write(new TextEncoder().encode(field.name));
+      this.out.write(field.bytes);
+    }
+  }
+
+  // string literals are JSON strings, as built by `types.ascii()` and `types.utf8()`
+  private string(typeId: TypeId) {
+    const start = this.pos;
+    this.expect('"');
+    while (this.pos < this.src.length && this.src.charAt(this.pos) !== '"') {
+      this.pos += this.src.charAt(this.pos) === "\\" ? 2 : 1;
+    }
+    this.expect('"');
+
+    const bytes = new TextEncoder().encode(JSON.parse(this.src.substring(start, this.pos)));
+    this.out.u8(typeId);
+    this.out.u32(bytes.length);
+    this.out.write(bytes);
+  }
+
+  private principal(token: string) {
+    const [address, contractName] = token.split(".");
+    const { version, hash160 } = c32AddressDecode(address);
+
+    this.out.u8(contractName === undefined ? TypeId.StandardPrincipal : TypeId.ContractPrincipal);
+    this.out.u8(version);
+    this.out.write(hash160);
+    if (contractName !== undefined) {
+      this.out.u8(contractName.length);
+      this.out.write(new TextEncoder().encode(contractName));
+    }
+  }
+
+  private token(): string {
+    const match = /^[^\s,()\[\]{}"]+/.exec(this.src.substring(this.pos));
+    if (!match) {
+      this.fail("expected a value");
+    }
+    this.pos += match![0].length;
+    return match![0];
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.src.charAt(this.pos))) {
+      this.pos++;
+    }
+  }
+
+  private expect(ch: string) {
+    if (this.src.charAt(this.pos) !== ch) {
+      this.fail(`expected '${ch}'`);
+    }
+    this.pos++;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Unable to serialize Clarity value: ${message} at position ${this.pos} in '${this.src}'`);
+  }
+}
+
+class ByteReader {
+  private pos: number = 0;
+  private bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  value(): ClarityValue {
+    const typeId = this.u8();
+
+    switch (typeId) {
+      case TypeId.Int: return BigInt.asIntN(128, this.u128());
+      case TypeId.Uint: return this.u128();
+      case TypeId.Buffer: return this.take(this.u32());
+      case TypeId.True: return true;
+      case TypeId.False: return false;
+      case TypeId.StandardPrincipal: return this.principal();
+      case TypeId.ContractPrincipal: return `${this.principal()}.${this.string(this.u8())}`;
+      case TypeId.Ok: return new ClarityResponse(true, this.value());
+      case TypeId.Err: return new ClarityResponse(false, this.value());
+      case TypeId.None: return null;
+      case TypeId.Some: {
+        const innerIsOptional = this.bytes[this.pos] === TypeId.None || this.bytes[this.pos] === TypeId.Some;
+        const inner = this.value();
+        return innerIsOptional ? new ClaritySome(inner) : inner;
+      }
+      case TypeId.List: {
+        const items: ClarityValue[] = [];
+        for (let count = this.u32(); count > 0; count--) {
+          items.push(this.value());
+        }
+        return items;
+      }
+      case TypeId.Tuple: {
+        const tuple: ClarityTuple = {};
+        for (let count = this.u32(); count > 0; count--) {
+          const name = this.string(this.u8());
+          tuple[name] = this.value();
+        }
+        return tuple;
+      }
+      case TypeId.StringAscii:
+      case TypeId.StringUtf8:
+        return this.string(this.u32());
+    }
+
+    throw new Error(`Unable to deserialize Clarity value: unknown type id ${typeId} at position ${this.pos - 1}`);
+  }
+
+  done(): boolean {
+    return this.pos === this.bytes.length;
+  }
+
+  private principal(): string {
+    const version = this.u8();
+    return c32Address(version, this.take(20));
+  }
+
+  private string(length: number): string {
+    return new TextDecoder().decode(this.take(length));
+  }
+
+  private u8(): number {
+    return this.take(1)[0];
+  }
+
+  private u32(): number {
+    return this.take(4).reduce((acc, byte) => acc * 256 + byte, 0);
+  }
+
+  private u128(): bigint {
+    return this.take(16).reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+  }
+
+  private take(length: number): Uint8Array {
+    if (this.pos + length > this.bytes.length) {
+      throw new Error(`Unable to deserialize Clarity value: unexpected end of input at position ${this.pos}`);
+    }
+    const bytes = this.bytes.slice(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const digits = hex.startsWith("0x") ? hex.substring(2) : hex;
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(digits.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return `0x${[...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Serializes a Clarity value into its binary encoding.
+ *
+ * @param repr Clarity value representation, e.g. `types.tuple({ "stacks-block-height": types.uint(5) })`
+ */
+export function serializeClarityValue(repr: string): Uint8Array {
+  return new ReprSerializer(repr).serialize();
+}
+
+/**
+ * Deserializes a Clarity value from its binary encoding into plain JS values, like `decodeClarityValue()`.
+ *
+ * @param bytes the encoded value, or its hex (with or without 0x prefix)
+ */
+export function deserializeClarityValue(bytes: Uint8Array | string): ClarityValue {
+  const reader = new ByteReader(typeof bytes === "string" ? hexToBytes(bytes) : bytes);
+  const value = reader.value();
+  if (!reader.done()) {
+    throw new Error("Unable to deserialize Clarity value: unexpected trailing bytes");
+  }
+  return value;
+}
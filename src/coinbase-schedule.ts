@@ -0,0 +1,126 @@
+// Off-chain mirror of the contract's issuance schedule (see get-coinbase-amount),
+// so that expected coinbase and supply can be computed without a chain.
+
+export interface CoinbaseSchedule {
+  bonusPeriod: number,
+  epochLength: number,
+  // coinbase per block for each epoch, in micro-CityCoins
+  amounts: bigint[]
+}
+
+export const COINBASE_BONUS_PERIOD = 10000;
+export const COINBASE_EPOCH_LENGTH = 210000;
+export const COINBASE_AMOUNTS: bigint[] = [
+  250000000000n,
+  100000000000n,
+  50000000000n,
+  25000000000n,
+  12500000000n,
+  6250000000n,
+  3125000000n
+];
+
+export const DEFAULT_COINBASE_SCHEDULE: CoinbaseSchedule = {
+  bonusPeriod: COINBASE_BONUS_PERIOD,
+  epochLength: COINBASE_EPOCH_LENGTH,
+  amounts: COINBASE_AMOUNTS
+};
+
+/**
+ * Returns the issuance epoch of a block, or null if mining wasn't activated yet.
+ * Mirrors get-coinbase-epoch.
+ */
+export function coinbaseEpoch(
+  height: number,
+  activationHeight: number,
+  schedule: CoinbaseSchedule = DEFAULT_COINBASE_SCHEDULE
+): number | null {
+  if (height < activationHeight) {
+    return null;
+  }
+
+  const blocksSinceActivation = height - activationHeight;
+  if (blocksSinceActivation < schedule.bonusPeriod) {
+    return 0;
+  }
+
+  const lastEpoch = schedule.amounts.length - 1;
+  return Math.min(1 + Math.floor(blocksSinceActivation / schedule.epochLength), lastEpoch);
+}
+
+/**
+ * Returns the first block height after the given epoch, or null for the last epoch.
+ * Mirrors get-epoch-end-height.
+ */
+export function epochEndHeight(
+  epoch: number,
+  activationHeight: number,
+  schedule: CoinbaseSchedule = DEFAULT_COINBASE_SCHEDULE
+): number | null {
+  if (epoch === 0) {
+    return activationHeight + schedule.bonusPeriod;
+  }
+  if (epoch < schedule.amounts.length - 1) {
+    return activationHeight + epoch * schedule.epochLength;
+  }
+  return null;
+}
+
+/**
+ * Returns how many micro-CityCoins are minted for the block mined at the given height.
+ * Mirrors get-coinbase-amount.
+ */
+export function expectedCoinbase(
+  height: number,
+  activationHeight: number,
+  schedule: CoinbaseSchedule = DEFAULT_COINBASE_SCHEDULE
+): bigint {
+  const epoch = coinbaseEpoch(height, activationHeight, schedule);
+
+  return epoch === null ? 0n : schedule.amounts[epoch];
+}
+
+export interface SupplyProjection {
+  height: number,
+  epoch: number,
+  totalSupply: bigint
+}
+
+/**
+ * Projects the total supply, assuming every block is mined and claimed, at the end of each epoch
+ * (and at untilHeight) for blocks in [activationHeight, untilHeight).
+ * Works epoch by epoch, so projecting over millions of blocks is cheap.
+ */
+export function projectSupply(
+  activationHeight: number,
+  untilHeight: number,
+  schedule: CoinbaseSchedule = DEFAULT_COINBASE_SCHEDULE
+): SupplyProjection[] {
+  const projection: SupplyProjection[] = [];
+  let totalSupply = 0n;
+  let height = activationHeight;
+
+  while (height < untilHeight) {
+    const epoch = coinbaseEpoch(height, activationHeight, schedule)!;
+    const end = Math.min(epochEndHeight(epoch, activationHeight, schedule) ?? untilHeight, untilHeight);
+
+    totalSupply += BigInt(end - height) * schedule.amounts[epoch];
+    projection.push({ height: end, epoch, totalSupply });
+    height = end;
+  }
+
+  return projection;
+}
+
+/**
+ * Returns the total supply after all blocks in [activationHeight, untilHeight) are mined and claimed.
+ */
+export function totalSupplyAt(
+  activationHeight: number,
+  untilHeight: number,
+  schedule: CoinbaseSchedule = DEFAULT_COINBASE_SCHEDULE
+): bigint {
+  const projection = projectSupply(activationHeight, untilHeight, schedule);
+
+  return projection.length > 0 ? projection[projection.length - 1].totalSupply : 0n;
+}
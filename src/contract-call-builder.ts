@@ -0,0 +1,196 @@
+// Builds unsigned contract calls for a wallet to sign (e.g. Stacks.js' `openContractCall()`), alongside the
+// Clarinet `Tx` objects CityCoinClient builds for tests.  Post-conditions are in deny mode, so a call can't move
+// any asset the user didn't see.
+
+import { types } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import {
+  bytesToHex,
+  serializeClarityValue
+} from './clarity-serializer.ts';
+import { c32AddressDecode } from './c32.ts';
+import { CityConfig } from './city-configs.ts';
+
+// same values as Stacks.js' PostConditionMode
+export enum PostConditionMode {
+  Allow = 0x01,
+  Deny = 0x02
+}
+
+// same values as Stacks.js' FungibleConditionCode
+export enum FungibleConditionCode {
+  Equal = 0x01,
+  Greater = 0x02,
+  GreaterEqual = 0x03,
+  Less = 0x04,
+  LessEqual = 0x05
+}
+
+export interface ContractCallOptions {
+  contractAddress: string,
+  contractName: string,
+  functionName: string,
+  // serialized Clarity values, as hex
+  functionArgs: string[],
+  postConditionMode: PostConditionMode,
+  // serialized post-conditions, as hex
+  postConditions: string[]
+}
+
+// the fungible token every CityCoin contract defines
+const TOKEN_ASSET_NAME = "citycoins";
+
+enum PostConditionType {
+  Stx = 0x00,
+  FungibleToken = 0x01
+}
+
+enum PostConditionPrincipal {
+  Standard = 0x02,
+  Contract = 0x03
+}
+
+class PostConditionWriter {
+  private bytes: number[] = [];
+
+  // a standard principal, or a contract principal if it has a contract name
+  principal(principal: string) {
+    const [address, contractName] = principal.split(".");
+
+    this.u8(contractName === undefined ? PostConditionPrincipal.Standard : PostConditionPrincipal.Contract);
+    this.address(address);
+    if (contractName !== undefined) {
+      this.name(contractName);
+    }
+  }
+
+  address(address: string) {
+    const { version, hash160 } = c32AddressDecode(address);
+    this.u8(version);
+    hash160.forEach((byte) => this.u8(byte));
+  }
+
+  name(name: string) {
+    this.u8(name.length);
+    new TextEncoder().encode(name).forEach((byte) => this.u8(byte));
+  }
+
+  u8(value: number) {
+    this.bytes.push(value);
+  }
+
+  u64(value: bigint) {
+    for (let shift = 56n; shift >= 0n; shift -= 8n) {
+      this.u8(Number((value >> shift) & 0xffn));
+    }
+  }
+
+  toHex(): string {
+    return bytesToHex(new Uint8Array(this.bytes));
+  }
+}
+
+/**
+ * Serializes a post-condition on how many uSTX the given principal sends.
+ */
+export function stxPostCondition(principal: string, code: FungibleConditionCode, amountUstx: number | bigint): string {
+  const writer = new PostConditionWriter();
+
+  writer.u8(PostConditionType.Stx);
+  writer.principal(principal);
+  writer.u8(code);
+  writer.u64(BigInt(amountUstx));
+
+  return writer.toHex();
+}
+
+/**
+ * Serializes a post-condition on how many of the given contract's tokens the given principal sends.
+ */
+export function tokenPostCondition(principal: string, code: FungibleConditionCode, amount: number | bigint,
+                                   tokenContractId: string, assetName: string = TOKEN_ASSET_NAME): string {
+  const [tokenAddress, tokenContractName] = tokenContractId.split(".");
+  const writer = new PostConditionWriter();
+
+  writer.u8(PostConditionType.FungibleToken);
+  writer.principal(principal);
+  writer.address(tokenAddress);
+  writer.name(tokenContractName);
+  writer.name(assetName);
+  writer.u8(code);
+  writer.u64(BigInt(amount));
+
+  return writer.toHex();
+}
+
+export class ContractCallBuilder {
+  contractAddress: string;
+  contractName: string;
+
+  /**
+   * @param contractAddress the address that deployed the contract
+   * @param contract the name of the contract to call, or the config of the city whose generated contract to call
+   */
+  constructor(contractAddress: string, contract: string | CityConfig = "citycoin") {
+    this.contractAddress = contractAddress;
+    this.contractName = typeof contract === "string" ? contract : contract.contractName;
+  }
+
+  getContractAddress(): string {
+    return `${this.contractAddress}.${this.contractName}`;
+  }
+
+  private contractCall(functionName: string, args: string[], postConditions: string[] = []): ContractCallOptions {
+    return {
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs: args.map((arg) => bytesToHex(serializeClarityValue(arg))),
+      postConditionMode: PostConditionMode.Deny,
+      postConditions
+    };
+  }
+
+  registerMiner(): ContractCallOptions {
+    return this.contractCall("register-miner", []);
+  }
+
+  // the miner sends exactly `amountUstx`
+  mineTokens(amountUstx: number, sender: string): ContractCallOptions {
+    return this.contractCall("mine-tokens", [
+      types.uint(amountUstx)
+    ], [
+      stxPostCondition(sender, FungibleConditionCode.Equal, amountUstx)
+    ]);
+  }
+
+  // the Stacker sends exactly `amountTokens` tokens
+  stackTokens(amountTokens: number, startStacksHeight: number, lockPeriod: number, sender: string): ContractCallOptions {
+    return this.contractCall("stack-tokens", [
+      types.uint(amountTokens),
+      types.uint(startStacksHeight),
+      types.uint(lockPeriod)
+    ], [
+      tokenPostCondition(sender, FungibleConditionCode.Equal, amountTokens, this.getContractAddress())
+    ]);
+  }
+
+  // minting isn't covered by post-conditions, so there are none
+  claimTokenReward(minedStacksBlockHeight: number): ContractCallOptions {
+    return this.contractCall("claim-token-reward", [
+      types.uint(minedStacksBlockHeight)
+    ]);
+  }
+
+  /**
+   * The contract sends exactly `expectedUstx` to the Stacker.
+   *
+   * @param expectedUstx e.g. the result of `getEntitledStackingReward()`
+   */
+  claimStackingReward(targetRewardCycle: number, expectedUstx: number | bigint): ContractCallOptions {
+    return this.contractCall("claim-stacking-reward", [
+      types.uint(targetRewardCycle)
+    ], [
+      stxPostCondition(this.getContractAddress(), FungibleConditionCode.Equal, expectedUstx)
+    ]);
+  }
+}
@@ -0,0 +1,99 @@
+// Reads chain state from a Stacks node's RPC API, so dashboards can use CityCoinReader against a live chain.
+
+import { ClarityValue } from './clarity-decoder.ts';
+import {
+  bytesToHex,
+  deserializeClarityValue,
+  serializeClarityValue
+} from './clarity-serializer.ts';
+import { ChainBackend } from './chain-backend.ts';
+
+// POST /v2/contracts/call-read: the serialized result, or why the node couldn't run the function
+interface CallReadResponse {
+  okay: boolean,
+  result?: string,
+  cause?: string
+}
+
+// POST /v2/map_entry: the serialized entry, as an optional
+interface MapEntryResponse {
+  data: string,
+  proof?: string
+}
+
+// GET /v2/accounts: balances are hex-encoded uint128s
+interface AccountResponse {
+  balance: string,
+  locked: string,
+  unlock_height: number,
+  nonce: number
+}
+
+// GET /v2/fees/transfer: the fee rate, in uSTX per byte
+type FeeRateResponse = number;
+
+export class HttpBackend implements ChainBackend {
+  readonly mode = "async";
+  nodeUrl: string;
+
+  /**
+   * @param nodeUrl e.g. `http://localhost:20443`
+   */
+  constructor(nodeUrl: string) {
+    this.nodeUrl = nodeUrl.replace(/\/+$/, "");
+  }
+
+  // POST /v2/contracts/call-read/<address>/<contract name>/<function>
+  async callReadOnly(contractId: string, method: string, args: string[], sender: string): Promise<ClarityValue> {
+    const response = await this.request<CallReadResponse>(`/v2/contracts/call-read/${contractPath(contractId)}/${method}`, {
+      sender,
+      arguments: args.map((arg) => bytesToHex(serializeClarityValue(arg)))
+    });
+
+    if (!response.okay || response.result === undefined) {
+      throw new Error(`${contractId}::${method} failed: ${response.cause}`);
+    }
+    return deserializeClarityValue(response.result);
+  }
+
+  // POST /v2/map_entry/<address>/<contract name>/<map>, which returns the entry as an optional
+  async getMapEntry(contractId: string, mapName: string, key: string): Promise<ClarityValue> {
+    const response = await this.request<MapEntryResponse>(
+      `/v2/map_entry/${contractPath(contractId)}/${mapName}?proof=0`,
+      bytesToHex(serializeClarityValue(key))
+    );
+
+    return deserializeClarityValue(response.data);
+  }
+
+  // GET /v2/accounts/<principal>
+  async getNonce(principal: string): Promise<bigint> {
+    const response = await this.request<AccountResponse>(`/v2/accounts/${principal}?proof=0`);
+    return BigInt(response.nonce);
+  }
+
+  // GET /v2/fees/transfer
+  async getFeeRate(): Promise<bigint> {
+    const response = await this.request<FeeRateResponse>("/v2/fees/transfer");
+    return BigInt(response);
+  }
+
+  // GETs the given path, or POSTs the given body as JSON
+  private async request<T>(path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.nodeUrl}${path}`, body === undefined ? undefined : {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new Error(`${path} failed with HTTP ${response.status}: ${await response.text()}`);
+    }
+    return await response.json() as T;
+  }
+}
+
+function contractPath(contractId: string): string {
+  const [address, contractName] = contractId.split(".");
+  return `${address}/${contractName}`;
+}
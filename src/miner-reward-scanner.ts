@@ -0,0 +1,116 @@
+// Finds out which blocks a miner won, so they don't have to guess which heights to claim.
+
+import { Account } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import {
+  CityCoinClient,
+  TOKEN_REWARD_MATURITY
+} from './citycoin-client.ts';
+import { CityCoinEvent } from './citycoin-events.ts';
+
+// won/lost are only known once the VRF seed at `height + maturity` exists
+export type BlockRewardStatus = "won" | "lost" | "pending-maturity" | "not-mined";
+
+export interface BlockRewardReport {
+  stacksBlockHeight: number,
+  // null if the miner didn't commit to this block
+  minerCommitUstx: bigint | null,
+  totalCommitUstx: bigint,
+  status: BlockRewardStatus,
+  // whether the block's winner already claimed the token batch
+  claimed: boolean
+}
+
+export interface ScanOptions {
+  // only report the heights the miner committed to, as listed by these events (e.g. what `client.parseEvents()`
+  // returns for the miner's transactions, or an indexer's copy of them), without reading the other heights
+  onlyMined?: CityCoinEvent[]
+}
+
+export class MinerRewardScanner {
+  client: CityCoinClient;
+  tokenRewardMaturity: number;
+
+  constructor(client: CityCoinClient, tokenRewardMaturity: number = TOKEN_REWARD_MATURITY) {
+    this.client = client;
+    this.tokenRewardMaturity = tokenRewardMaturity;
+  }
+
+  /**
+   * Reports the outcome of every block in [fromHeight, toHeight] for the given miner.
+   */
+  scan(miner: Account, fromHeight: number, toHeight: number, options: ScanOptions = {}): BlockRewardReport[] {
+    if (options.onlyMined) {
+      const heights = minedHeights(miner.address, options.onlyMined)
+        .filter((height) => height >= fromHeight && height <= toHeight);
+      // events the miner's commitment doesn't match anymore are left out
+      return this.scanHeights(miner, heights).filter((report) => report.minerCommitUstx !== null);
+    }
+
+    const reports: BlockRewardReport[] = [];
+    for (let height = fromHeight; height <= toHeight; height++) {
+      reports.push(this.scanBlock(miner, height));
+    }
+    return reports;
+  }
+
+  /**
+   * Reports the outcome of the given blocks, e.g. the heights of a miner's `mine` events.
+   */
+  scanHeights(miner: Account, heights: number[]): BlockRewardReport[] {
+    return heights.map((height) => this.scanBlock(miner, height));
+  }
+
+  scanBlock(miner: Account, stacksBlockHeight: number): BlockRewardReport {
+    const miners = this.client.getMinersAtBlock(stacksBlockHeight);
+    const commit = miners.find((c) => c.miner === miner.address);
+    const report: BlockRewardReport = {
+      stacksBlockHeight,
+      minerCommitUstx: commit ? commit.amountUstx : null,
+      totalCommitUstx: miners.reduce((sum, c) => sum + c.amountUstx, 0n),
+      status: "not-mined",
+      claimed: miners.length > 0 && this.client.isBlockRewardClaimed(stacksBlockHeight)
+    };
+
+    if (!commit) {
+      return report;
+    }
+
+    const randomSample = this.client.getRandomUintAtBlock(stacksBlockHeight + this.tokenRewardMaturity);
+    if (randomSample === null) {
+      report.status = "pending-maturity";
+      return report;
+    }
+
+    const winner = this.client.getBlockWinner(randomSample, miners);
+    report.status = winner !== null && winner.miner === miner.address ? "won" : "lost";
+    return report;
+  }
+}
+
+/**
+ * Returns the heights the miner still has a commitment for according to their `mine` and `cancel-mine` events, in
+ * ascending order.  Other events, and other miners' events, are ignored.
+ */
+export function minedHeights(miner: string, events: CityCoinEvent[]): number[] {
+  const commitments: Map<number, number> = new Map();
+
+  for (const event of events) {
+    if ((event.event === "mine" || event.event === "cancel-mine") && event.miner === miner) {
+      const height = Number(event.height);
+      commitments.set(height, (commitments.get(height) ?? 0) + (event.event === "mine" ? 1 : -1));
+    }
+  }
+
+  return [...commitments.keys()]
+    .filter((height) => commitments.get(height)! > 0)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Returns the heights that can still be claimed, ready to be passed to `claimTokenRewards()`.
+ */
+export function claimableHeights(reports: BlockRewardReport[]): number[] {
+  return reports
+    .filter((report) => report.status === "won" && !report.claimed)
+    .map((report) => report.stacksBlockHeight);
+}
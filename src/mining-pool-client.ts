@@ -0,0 +1,207 @@
+import { Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import {
+  ClarityValue,
+  decodeClarityValue,
+  asUint,
+  asBool,
+  asString,
+  asTuple,
+  asOptional
+} from './clarity-decoder.ts';
+import {
+  ReadOnlyResult
+} from './citycoin-client.ts';
+
+// The pool's own error codes.  Errors of the citycoin contract it calls are passed through as is (see ErrCode).
+export enum PoolErrCode {
+  ERR_UNAUTHORIZED = 100,
+  ERR_CANNOT_CONTRIBUTE,
+  ERR_INSUFFICIENT_BALANCE,
+  ERR_NOTHING_TO_COMMIT,
+  ERR_NO_SUCH_ROUND,
+  ERR_NOTHING_TO_WITHDRAW
+}
+
+export interface PoolRound {
+  totalUstx: bigint,
+  // null until the operator committed the round
+  stacksBlockHeight: bigint | null,
+  // 0 until the pool claimed the round's block reward
+  amountToken: bigint
+}
+
+export interface PoolContribution {
+  amountUstx: bigint,
+  withdrawn: boolean
+}
+
+export interface PoolRoundWithdrawals {
+  // contributed by the contributors who withdrew their share
+  amountUstx: bigint,
+  amountToken: bigint
+}
+
+function decodePoolRound(value: ClarityValue): PoolRound {
+  const tuple = asTuple(value);
+
+  return {
+    totalUstx: asUint(tuple["total-ustx"]),
+    stacksBlockHeight: asOptional(tuple["stacks-block-height"], asUint),
+    amountToken: asUint(tuple["amount-token"])
+  };
+}
+
+function decodePoolContribution(value: ClarityValue): PoolContribution {
+  const tuple = asTuple(value);
+
+  return {
+    amountUstx: asUint(tuple["amount-ustx"]),
+    withdrawn: asBool(tuple["withdrawn"])
+  };
+}
+
+function decodePoolRoundWithdrawals(value: ClarityValue): PoolRoundWithdrawals {
+  const tuple = asTuple(value);
+
+  return {
+    amountUstx: asUint(tuple["amount-ustx"]),
+    amountToken: asUint(tuple["amount-token"])
+  };
+}
+
+export class MiningPoolClient {
+  contractName: string;
+  chain: Chain;
+  deployer: Account;
+
+  /**
+   * @param deployer the account that deployed the pool, which is also its first operator
+   */
+  constructor(chain: Chain, deployer: Account, contractName: string = "mining-pool") {
+    this.chain = chain;
+    this.deployer = deployer;
+    this.contractName = contractName;
+  }
+
+  private callReadOnlyFn(method: string, args: Array<any> = [], sender: Account = this.deployer): ReadOnlyResult {
+    return this.chain.callReadOnlyFn(
+      this.contractName,
+      method,
+      args,
+      sender?.address
+    );
+  }
+
+  private readValue(method: string, args: Array<any> = []): ClarityValue {
+    return decodeClarityValue(this.callReadOnlyFn(method, args).result);
+  }
+
+  public getContractAddress(): string {
+    return `${this.deployer.address}.${this.contractName}`;
+  }
+
+  // read only functions
+
+  getPoolOperator(): string {
+    return asString(this.readValue("get-pool-operator"));
+  }
+
+  getCurrentRound(): bigint {
+    return asUint(this.readValue("get-current-round"));
+  }
+
+  getRound(round: number): PoolRound | null {
+    return asOptional(this.readValue("get-round", [
+      types.uint(round)
+    ]), decodePoolRound);
+  }
+
+  getContribution(round: number, contributor: Account): PoolContribution | null {
+    return asOptional(this.readValue("get-contribution", [
+      types.uint(round),
+      types.principal(contributor.address)
+    ]), decodePoolContribution);
+  }
+
+  getRoundWithdrawals(round: number): PoolRoundWithdrawals {
+    return decodePoolRoundWithdrawals(this.readValue("get-round-withdrawals", [
+      types.uint(round)
+    ]));
+  }
+
+  getContributorReward(round: number, contributor: Account): bigint {
+    return asUint(this.readValue("get-contributor-reward", [
+      types.uint(round),
+      types.principal(contributor.address)
+    ]));
+  }
+
+  // public functions
+
+  contribute(amountUstx: number, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "contribute",
+      [
+        types.uint(amountUstx)
+      ],
+      sender.address
+    );
+  }
+
+  // from the current round, which isn't committed yet
+  refundContribution(sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "refund-contribution",
+      [],
+      sender.address
+    );
+  }
+
+  setPoolOperator(newOperator: Account, sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "set-pool-operator",
+      [
+        types.principal(newOperator.address)
+      ],
+      sender.address
+    );
+  }
+
+  commitRound(sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "commit-round",
+      [],
+      sender.address
+    );
+  }
+
+  /**
+   * Claims the block rewards of up to 200 rounds at once.  The receipt's result holds the
+   * outcome of each claim, in the same order as `rounds`.
+   */
+  claimRounds(rounds: number[], sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "claim-rounds",
+      [
+        types.list(rounds.map((round) => types.uint(round)))
+      ],
+      sender.address
+    );
+  }
+
+  withdrawRewards(rounds: number[], sender: Account): Tx {
+    return Tx.contractCall(
+      this.contractName,
+      "withdraw-rewards",
+      [
+        types.list(rounds.map((round) => types.uint(round)))
+      ],
+      sender.address
+    );
+  }
+}
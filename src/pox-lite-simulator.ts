@@ -0,0 +1,966 @@
+// Off-chain model of the contract's PoX-lite state machine, for running what-if scenarios over
+// many reward cycles without Clarinet.  Every public function mirrors its Clarity counterpart,
+// including the order in which errors are checked and integer division.
+//
+// Amounts are bigints (uSTX and micro-CityCoins), block heights and reward cycles are numbers.
+
+import {
+  BlockMinersEntry,
+  BlockSummary,
+  CityWalletInfo,
+  CycleStats,
+  CycleTotals,
+  Delegation,
+  ErrCode,
+  MinerBounds,
+  MinerCommit,
+  MinerStats,
+  Result,
+  StackerUnlockInfo,
+  StackingPosition
+} from './citycoin-client.ts';
+import {
+  CoinbaseSchedule,
+  DEFAULT_COINBASE_SCHEDULE,
+  expectedCoinbase
+} from './coinbase-schedule.ts';
+
+export interface SimulatorConfig {
+  rewardCycleLength: number,
+  tokenRewardMaturity: number,
+  maxRewardCycles: number,
+  maxMinersPerBlock: number,
+  maxMineManyBlocks: number,
+  activationThreshold: number,
+  activationDelay: number,
+  cityWalletSplitPct: bigint,
+  coinbase: CoinbaseSchedule
+}
+
+export const DEFAULT_SIMULATOR_CONFIG: SimulatorConfig = {
+  rewardCycleLength: 500,
+  tokenRewardMaturity: 100,
+  maxRewardCycles: 32,
+  maxMinersPerBlock: 128,
+  maxMineManyBlocks: 200,
+  activationThreshold: 5,
+  activationDelay: 100,
+  cityWalletSplitPct: 30n,
+  coinbase: DEFAULT_COINBASE_SCHEDULE
+};
+
+// Returns the lower 16 bytes of the VRF seed of a block as a uint (see get-random-uint-at-block).
+// Only called for blocks that were already mined.
+export type RandomSource = (stacksBlockHeight: number) => bigint | null;
+
+type MinerStatsRecord = Omit<MinerStats, "avgUstxPerBlock">;
+
+interface UnlockRecord {
+  amountToken: bigint,
+  unlockRewardCycle: number
+}
+
+/**
+ * Deterministic stand-in for the chain's VRF, so scenarios are reproducible.
+ */
+export function seededRandomSource(seed: bigint = 0n): RandomSource {
+  const MASK_64 = (1n << 64n) - 1n;
+  const splitmix = (x: bigint): bigint => {
+    let z = (x + 0x9e3779b97f4a7c15n) & MASK_64;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    return z ^ (z >> 31n);
+  };
+
+  return (stacksBlockHeight: number) => {
+    const hi = splitmix(seed ^ BigInt(stacksBlockHeight));
+    const lo = splitmix(hi);
+    return (hi << 64n) | lo;
+  };
+}
+
+function ok(): Result<true> {
+  return { ok: true, value: true };
+}
+
+function err<T>(error: ErrCode): Result<T> {
+  return { ok: false, error };
+}
+
+export class PoxLiteSimulator {
+  readonly config: SimulatorConfig;
+  readonly contractId: string;
+  blockHeight: number = 0;
+  // how many block-miner-at-index and block-miner-sums entries were read so far, a stand-in for the runtime cost of
+  // an operation, which grows with every miner it has to go through
+  minerEntryReads: number = 0;
+
+  private randomSource: RandomSource;
+  private firstStackingBlock: number | null = null;
+  private signalingMiners: Set<string> = new Set();
+  private stxBalances: Map<string, bigint> = new Map();
+  private tokenBalances: Map<string, bigint> = new Map();
+  // keyed like the contract's block-miners, block-miner-at-index and block-miner-index maps
+  private blockMiners: Map<number, BlockMinersEntry> = new Map();
+  private blockMinerAtIndex: Map<string, MinerCommit> = new Map();
+  private blockMinerSums: Map<string, bigint> = new Map();
+  private blockMinerIndex: Map<string, number> = new Map();
+  private tokensPerCycle: Map<number, CycleTotals> = new Map();
+  private stackedPerCycle: Map<string, bigint> = new Map();
+  private stackerUnlocks: Map<string, UnlockRecord> = new Map();
+  private delegations: Map<string, Delegation> = new Map();
+  // keyed by operator, member and reward cycle, like the contract's delegated-per-cycle map
+  private delegatedPerCycle: Map<string, bigint> = new Map();
+  // keyed by member and reward cycle: the operator of the contract's member-delegated-per-cycle map
+  private memberOperatorPerCycle: Map<string, string> = new Map();
+  // Stackers of each reward cycle, in the order they first Stacked in it
+  private stackersPerCycle: Map<number, string[]> = new Map();
+  private claimedUstxPerCycle: Map<number, bigint> = new Map();
+  private minerStats: Map<string, MinerStatsRecord> = new Map();
+  private cityUstxPerCycle: Map<number, bigint> = new Map();
+  private cityUstxPerBlock: Map<number, bigint> = new Map();
+  private cityWallet: string;
+  private cityWalletUnclaimedUstx: bigint = 0n;
+
+  /**
+   * @param contractId principal holding the contract's uSTX and tokens
+   * @param deployer initial city wallet custodian
+   * @param randomSource VRF stand-in, defaults to seededRandomSource()
+   * @param config defaults to the contract's constants
+   */
+  constructor(
+    contractId: string,
+    deployer: string,
+    randomSource: RandomSource = seededRandomSource(),
+    config: SimulatorConfig = DEFAULT_SIMULATOR_CONFIG
+  ) {
+    this.contractId = contractId;
+    this.cityWallet = deployer;
+    this.randomSource = randomSource;
+    this.config = config;
+  }
+
+  // chain
+
+  /**
+   * Moves the chain tip, transactions are then executed at this height.
+   */
+  advanceTo(stacksBlockHeight: number) {
+    if (stacksBlockHeight < this.blockHeight) {
+      throw new Error(`Chain tip cannot be moved from ${this.blockHeight} to ${stacksBlockHeight}`);
+    }
+    this.blockHeight = stacksBlockHeight;
+  }
+
+  setStxBalance(principal: string, amountUstx: bigint) {
+    this.stxBalances.set(principal, amountUstx);
+  }
+
+  getStxBalance(principal: string): bigint {
+    return this.stxBalances.get(principal) ?? 0n;
+  }
+
+  getTokenBalance(principal: string): bigint {
+    return this.tokenBalances.get(principal) ?? 0n;
+  }
+
+  getTotalSupply(): bigint {
+    let total = 0n;
+    this.tokenBalances.forEach((amount) => total += amount);
+    return total;
+  }
+
+  // mirrors the ft-mint test add-on
+  mint(recipient: string, amountToken: bigint) {
+    this.tokenBalances.set(recipient, this.getTokenBalance(recipient) + amountToken);
+  }
+
+  // read only functions
+
+  getRewardCycle(stacksBlockHeight: number): number | null {
+    if (this.firstStackingBlock === null || stacksBlockHeight < this.firstStackingBlock) {
+      return null;
+    }
+    return Math.floor((stacksBlockHeight - this.firstStackingBlock) / this.config.rewardCycleLength);
+  }
+
+  getActivationBlock(): number | null {
+    return this.firstStackingBlock;
+  }
+
+  getCoinbaseAmount(stacksBlockHeight: number): bigint {
+    if (this.firstStackingBlock === null) {
+      return 0n;
+    }
+    return expectedCoinbase(stacksBlockHeight, this.firstStackingBlock, this.config.coinbase);
+  }
+
+  getCityShare(amountUstx: bigint): bigint {
+    return amountUstx * this.config.cityWalletSplitPct / 100n;
+  }
+
+  getMinersAtBlock(stacksBlockHeight: number): MinerCommit[] {
+    const miners: MinerCommit[] = [];
+    for (let idx = 0; idx < this.getBlockMiners(stacksBlockHeight).minersCount; idx++) {
+      const { miner, amountUstx } = this.blockMinerAtIndex.get(`${stacksBlockHeight}/${idx}`)!;
+      this.minerEntryReads++;
+      miners.push({ miner, amountUstx });
+    }
+    return miners;
+  }
+
+  getMinerAtBlockIndex(stacksBlockHeight: number, index: number): MinerBounds | null {
+    const entry = this.blockMinerAtIndex.get(`${stacksBlockHeight}/${index}`);
+    this.minerEntryReads++;
+    if (entry === undefined) {
+      return null;
+    }
+
+    // every right child on the way up adds the sum of its left sibling
+    let low = 0n;
+    for (let node = this.config.maxMinersPerBlock + index; node > 1; node = Math.floor(node / 2)) {
+      if (node % 2 === 1) {
+        low += this.getMinerSum(stacksBlockHeight, node - 1);
+      }
+    }
+    return { ...entry, index: BigInt(index), low, high: low + entry.amountUstx };
+  }
+
+  getMinerAtBlock(miner: string, stacksBlockHeight: number): MinerBounds | null {
+    const index = this.blockMinerIndex.get(`${stacksBlockHeight}/${miner}`);
+    return index !== undefined ? this.getMinerAtBlockIndex(stacksBlockHeight, index) : null;
+  }
+
+  hasMinedAtBlock(miner: string, stacksBlockHeight: number): boolean {
+    return this.blockMinerIndex.has(`${stacksBlockHeight}/${miner}`);
+  }
+
+  isBlockRewardClaimed(stacksBlockHeight: number): boolean {
+    return this.getBlockMiners(stacksBlockHeight).claimed;
+  }
+
+  getMinerStats(miner: string): MinerStats {
+    const stats = this.minerStatsRecord(miner);
+
+    return {
+      ...stats,
+      avgUstxPerBlock: stats.blocksMined > 0n ? stats.ustxSpent / stats.blocksMined : 0n
+    };
+  }
+
+  getMinerCommitment(miner: string, stacksBlockHeight: number): bigint | null {
+    const index = this.blockMinerIndex.get(`${stacksBlockHeight}/${miner}`);
+    if (index === undefined) {
+      return null;
+    }
+
+    this.minerEntryReads++;
+    return this.blockMinerAtIndex.get(`${stacksBlockHeight}/${index}`)!.amountUstx;
+  }
+
+  getTokensPerCycle(rewardCycle: number): CycleTotals {
+    return { ...(this.tokensPerCycle.get(rewardCycle) ?? { totalUstx: 0n, totalTokens: 0n }) };
+  }
+
+  getStackedInCycle(stacker: string, rewardCycle: number): bigint {
+    return this.stackedPerCycle.get(`${stacker}/${rewardCycle}`) ?? 0n;
+  }
+
+  getStackerUnlockInfo(stacker: string): StackerUnlockInfo {
+    const unlock = this.stackerUnlocks.get(stacker) ?? { amountToken: 0n, unlockRewardCycle: 0 };
+    const curRewardCycle = this.getRewardCycle(this.blockHeight);
+
+    return {
+      amountToken: unlock.amountToken,
+      unlockRewardCycle: BigInt(unlock.unlockRewardCycle),
+      unlocked: unlock.amountToken > 0n && curRewardCycle !== null && curRewardCycle >= unlock.unlockRewardCycle
+    };
+  }
+
+  getStackingPosition(stacker: string): StackingPosition | null {
+    const curRewardCycle = this.getRewardCycle(this.blockHeight);
+    const position = curRewardCycle !== null ? this.getActiveStackingPosition(stacker, curRewardCycle) : null;
+    if (position === null) {
+      return null;
+    }
+
+    return {
+      amountToken: position.amountToken,
+      unlockRewardCycle: BigInt(position.unlockRewardCycle),
+      remainingCycles: BigInt(position.unlockRewardCycle - (curRewardCycle! + 1))
+    };
+  }
+
+  getDelegation(stacker: string): Delegation | null {
+    const delegation = this.delegations.get(stacker);
+    return delegation !== undefined ? { ...delegation } : null;
+  }
+
+  getDelegatedInCycle(operator: string, member: string, rewardCycle: number): bigint {
+    return this.delegatedPerCycle.get(`${operator}/${member}/${rewardCycle}`) ?? 0n;
+  }
+
+  getCycleStats(rewardCycle: number): CycleStats {
+    const totals = this.getTokensPerCycle(rewardCycle);
+
+    return {
+      stackers: BigInt(this.stackersPerCycle.get(rewardCycle)?.length ?? 0),
+      tokensLocked: totals.totalTokens,
+      ustxCommitted: totals.totalUstx,
+      ustxClaimed: this.claimedUstxPerCycle.get(rewardCycle) ?? 0n,
+      avgUstxPerToken: totals.totalTokens > 0n ? totals.totalUstx * 1000000n / totals.totalTokens : 0n
+    };
+  }
+
+  getCityUstxInCycle(rewardCycle: number): bigint {
+    return this.cityUstxPerCycle.get(rewardCycle) ?? 0n;
+  }
+
+  getCityUstxInBlock(stacksBlockHeight: number): bigint {
+    return this.cityUstxPerBlock.get(stacksBlockHeight) ?? 0n;
+  }
+
+  getCityPendingUstx(): bigint {
+    let pendingUstx = 0n;
+    for (let idx = 0; idx < this.config.maxMineManyBlocks; idx++) {
+      pendingUstx += this.getCityUstxInBlock(this.blockHeight + 1 + idx);
+    }
+    return pendingUstx;
+  }
+
+  getCityWalletInfo(): CityWalletInfo {
+    return {
+      cityWallet: this.cityWallet,
+      splitPct: this.config.cityWalletSplitPct,
+      unclaimedUstx: this.cityWalletUnclaimedUstx - this.getCityPendingUstx()
+    };
+  }
+
+  getRandomUintAtBlock(stacksBlockHeight: number): bigint | null {
+    // the VRF seed is only known for blocks that were already mined
+    return stacksBlockHeight < this.blockHeight ? this.randomSource(stacksBlockHeight) : null;
+  }
+
+  getBlockWinner(randomSample: bigint, miners: MinerCommit[]): MinerCommit | null {
+    const commitTotal = miners.reduce((sum, commit) => sum + commit.amountUstx, 0n);
+    if (commitTotal === 0n) {
+      return null;
+    }
+
+    const sample = randomSample % commitTotal;
+    let sum = 0n;
+    let winner: MinerCommit | null = null;
+    for (const commit of miners) {
+      const nextSum = sum + commit.amountUstx;
+      if (sample >= sum && sample < nextSum && commit.amountUstx > 0n) {
+        winner = commit;
+      }
+      sum = nextSum;
+    }
+    return winner;
+  }
+
+  isBlockWinner(miner: string, stacksBlockHeight: number, randomSample: bigint): boolean {
+    const commit = this.getMinerAtBlock(miner, stacksBlockHeight);
+    if (commit === null) {
+      return false;
+    }
+
+    const winningValue = randomSample % this.getBlockMiners(stacksBlockHeight).totalUstx;
+    return winningValue >= commit.low && winningValue < commit.high;
+  }
+
+  getBlockSummary(stacksBlockHeight: number): BlockSummary {
+    const block = this.getBlockMiners(stacksBlockHeight);
+    const randomSample = this.getRandomUintAtBlock(stacksBlockHeight + this.config.tokenRewardMaturity);
+    const winner = randomSample !== null ? this.findBlockWinner(stacksBlockHeight, randomSample) : null;
+
+    return {
+      stacksBlockHeight,
+      miners: block.minersCount,
+      commitTotal: block.totalUstx,
+      winner: winner !== null ? winner.miner : null,
+      claimed: block.claimed,
+      coinbase: this.getCoinbaseAmount(stacksBlockHeight),
+      // the contract is never shut down here
+      void: false
+    };
+  }
+
+  getEntitledStackingReward(stacker: string, targetRewardCycle: number, curBlockHeight: number): bigint {
+    const stackedThisCycle = this.getStackedInCycle(stacker, targetRewardCycle);
+    const totals = this.getTokensPerCycle(targetRewardCycle);
+    const curRewardCycle = this.getRewardCycle(curBlockHeight);
+
+    if (curRewardCycle === null || curRewardCycle <= targetRewardCycle || totals.totalTokens === 0n) {
+      return 0n;
+    }
+    return totals.totalUstx * stackedThisCycle / totals.totalTokens;
+  }
+
+  getPoolMemberReward(operator: string, member: string, targetRewardCycle: number): bigint {
+    const delegatedThisCycle = this.getDelegatedInCycle(operator, member, targetRewardCycle);
+    const totals = this.getTokensPerCycle(targetRewardCycle);
+    const curRewardCycle = this.getRewardCycle(this.blockHeight);
+
+    if (curRewardCycle === null || curRewardCycle <= targetRewardCycle || totals.totalTokens === 0n) {
+      return 0n;
+    }
+    return totals.totalUstx * delegatedThisCycle / totals.totalTokens;
+  }
+
+  getUnclaimedStackingRewards(stacker: string, fromCycle: number, toCycle: number): bigint {
+    let totalUstx = 0n;
+    for (let rc = fromCycle; rc <= toCycle && rc < fromCycle + this.config.maxRewardCycles; rc++) {
+      totalUstx += this.getEntitledStackingReward(stacker, rc, this.blockHeight);
+    }
+    return totalUstx;
+  }
+
+  canMineTokens(miner: string, stacksBlockHeight: number, amountUstx: bigint): Result<true> {
+    if (this.getRewardCycle(stacksBlockHeight) === null) {
+      return err(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+    }
+    if (this.getBlockMiners(stacksBlockHeight).minersCount >= BigInt(this.config.maxMinersPerBlock)) {
+      return err(ErrCode.ERR_ROUND_FULL);
+    }
+    if (this.hasMinedAtBlock(miner, stacksBlockHeight)) {
+      return err(ErrCode.ERR_ALREADY_MINED);
+    }
+    if (amountUstx <= 0n) {
+      return err(ErrCode.ERR_CANNOT_MINE);
+    }
+    if (this.getStxBalance(miner) < amountUstx) {
+      return err(ErrCode.ERR_INSUFFICIENT_BALANCE);
+    }
+    return ok();
+  }
+
+  // public functions
+
+  registerMiner(sender: string): Result<true> {
+    const newId = this.signalingMiners.size + 1;
+
+    if (this.signalingMiners.has(sender)) {
+      return err(ErrCode.ERR_MINER_ALREADY_REGISTERED);
+    }
+    if (newId > this.config.activationThreshold) {
+      return err(ErrCode.ERR_MINING_ACTIVATION_THRESHOLD_REACHED);
+    }
+
+    this.signalingMiners.add(sender);
+    if (newId === this.config.activationThreshold) {
+      this.firstStackingBlock = this.blockHeight + this.config.activationDelay;
+    }
+    return ok();
+  }
+
+  mineTokens(amountUstx: bigint, sender: string): Result<true> {
+    const canMine = this.canMineTokens(sender, this.blockHeight, amountUstx);
+    if (!canMine.ok) {
+      return canMine;
+    }
+
+    this.setTokensMined(sender, this.blockHeight, amountUstx);
+    this.transferStx(amountUstx, sender, this.contractId);
+    return ok();
+  }
+
+  mineMany(amounts: bigint[], sender: string): Result<true> {
+    if (amounts.length > this.config.maxMineManyBlocks) {
+      throw new Error(`Cannot mine more than ${this.config.maxMineManyBlocks} blocks at once`);
+    }
+
+    // blocks are distinct, so checking them all before mining any of them is equivalent to the fold
+    for (let idx = 0; idx < amounts.length; idx++) {
+      const canMine = this.canMineTokens(sender, this.blockHeight + idx, amounts[idx]);
+      if (!canMine.ok) {
+        return canMine;
+      }
+    }
+    const totalUstx = amounts.reduce((sum, amount) => sum + amount, 0n);
+    if (amounts.length === 0) {
+      return err(ErrCode.ERR_CANNOT_MINE);
+    }
+    if (this.getStxBalance(sender) < totalUstx) {
+      return err(ErrCode.ERR_INSUFFICIENT_BALANCE);
+    }
+
+    amounts.forEach((amount, idx) => this.setTokensMined(sender, this.blockHeight + idx, amount));
+    this.transferStx(totalUstx, sender, this.contractId);
+    return ok();
+  }
+
+  cancelMining(fromStacksBlockHeight: number, sender: string): Result<true> {
+    const firstBlock = fromStacksBlockHeight > this.blockHeight ? fromStacksBlockHeight : this.blockHeight + 1;
+    const cancelled: Array<{ height: number, amountUstx: bigint }> = [];
+
+    for (let idx = 0; idx < this.config.maxMineManyBlocks; idx++) {
+      const height = firstBlock + idx;
+      const amountUstx = this.getMinerCommitment(sender, height);
+      if (amountUstx === null) {
+        continue;
+      }
+      cancelled.push({ height, amountUstx });
+    }
+
+    const refundUstx = cancelled.reduce((sum, c) => sum + c.amountUstx, 0n);
+    if (refundUstx === 0n) {
+      return err(ErrCode.ERR_NOTHING_TO_REDEEM);
+    }
+
+    for (const { height, amountUstx } of cancelled) {
+      const rc = this.getRewardCycle(height)!;
+      const cityUstx = this.getCityShare(amountUstx);
+      const totals = this.getTokensPerCycle(rc);
+
+      this.removeMiner(sender, height, amountUstx);
+      this.tokensPerCycle.set(rc, { totalUstx: totals.totalUstx - (amountUstx - cityUstx), totalTokens: totals.totalTokens });
+      this.cityUstxPerCycle.set(rc, this.getCityUstxInCycle(rc) - cityUstx);
+      this.cityUstxPerBlock.set(height, this.getCityUstxInBlock(height) - cityUstx);
+      this.cityWalletUnclaimedUstx -= cityUstx;
+      this.updateMinerStats(sender, { blocksMined: -1n, ustxSpent: -amountUstx });
+    }
+    this.transferStx(refundUstx, this.contractId, sender);
+    return ok();
+  }
+
+  stackTokens(amountTokens: bigint, startStacksHeight: number, lockPeriod: number, sender: string): Result<true> {
+    const startRewardCycle = this.getRewardCycle(startStacksHeight);
+    const curRewardCycle = this.getRewardCycle(this.blockHeight);
+
+    if (startRewardCycle === null || curRewardCycle === null) {
+      return err(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+    }
+    if (this.blockHeight >= startStacksHeight) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    const maxLockup = this.config.maxRewardCycles;
+    if (lockPeriod <= 0 || lockPeriod > maxLockup || startRewardCycle + 1 + lockPeriod - (curRewardCycle + 1) > maxLockup) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    if (amountTokens <= 0n) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    if (amountTokens > this.getTokenBalance(sender)) {
+      return err(ErrCode.ERR_INSUFFICIENT_BALANCE);
+    }
+
+    this.transferTokens(amountTokens, sender, this.contractId);
+
+    const firstRewardCycle = startRewardCycle + 1;
+    this.stackInCycles(sender, amountTokens, firstRewardCycle, firstRewardCycle + lockPeriod);
+    this.setTokensStacked(sender, amountTokens, firstRewardCycle + lockPeriod);
+    return ok();
+  }
+
+  extendStacking(lockPeriod: number, sender: string): Result<true> {
+    const curRewardCycle = this.getRewardCycle(this.blockHeight);
+    if (curRewardCycle === null) {
+      return err(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+    }
+
+    const position = this.getActiveStackingPosition(sender, curRewardCycle);
+    if (position === null) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+
+    const maxLockup = this.config.maxRewardCycles;
+    const firstRewardCycle = position.unlockRewardCycle;
+    if (lockPeriod <= 0 || lockPeriod > maxLockup || firstRewardCycle + lockPeriod - (curRewardCycle + 1) > maxLockup) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+
+    this.stackInCycles(sender, position.amountToken, firstRewardCycle, firstRewardCycle + lockPeriod);
+    this.setTokensStacked(sender, 0n, firstRewardCycle + lockPeriod);
+    return ok();
+  }
+
+  increaseStacking(amountTokens: bigint, sender: string): Result<true> {
+    const curRewardCycle = this.getRewardCycle(this.blockHeight);
+    if (curRewardCycle === null) {
+      return err(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+    }
+
+    const position = this.getActiveStackingPosition(sender, curRewardCycle);
+    if (position === null) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+
+    const remainingCycles = position.unlockRewardCycle - (curRewardCycle + 1);
+    if (remainingCycles <= 0 || remainingCycles > this.config.maxRewardCycles) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    if (amountTokens <= 0n) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    if (amountTokens > this.getTokenBalance(sender)) {
+      return err(ErrCode.ERR_INSUFFICIENT_BALANCE);
+    }
+
+    this.transferTokens(amountTokens, sender, this.contractId);
+    this.stackInCycles(sender, amountTokens, curRewardCycle + 1, position.unlockRewardCycle);
+    this.setTokensStacked(sender, amountTokens, position.unlockRewardCycle);
+    return ok();
+  }
+
+  /**
+   * @param untilStacksHeight the Stacks block height at which the delegation expires, or null to delegate until revoked
+   */
+  delegateStacking(operator: string, amountTokens: bigint, untilStacksHeight: number | null, sender: string): Result<true> {
+    if (operator === sender) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    if (amountTokens <= 0n) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    if (untilStacksHeight !== null && untilStacksHeight <= this.blockHeight) {
+      return err(ErrCode.ERR_DELEGATION_EXPIRED);
+    }
+
+    this.delegations.set(sender, {
+      operator,
+      amountToken: amountTokens,
+      untilStacksHeight: untilStacksHeight !== null ? BigInt(untilStacksHeight) : null
+    });
+    return ok();
+  }
+
+  revokeDelegation(sender: string): Result<true> {
+    if (!this.delegations.delete(sender)) {
+      return err(ErrCode.ERR_NOT_DELEGATED);
+    }
+    return ok();
+  }
+
+  delegateStackTokens(member: string, amountTokens: bigint, startStacksHeight: number, lockPeriod: number, sender: string): Result<true> {
+    const startRewardCycle = this.getRewardCycle(startStacksHeight);
+    if (startRewardCycle === null) {
+      return err(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+    }
+
+    const delegation = this.delegations.get(member);
+    if (delegation === undefined) {
+      return err(ErrCode.ERR_NOT_DELEGATED);
+    }
+    const curRewardCycle = this.getRewardCycle(this.blockHeight);
+    if (curRewardCycle === null) {
+      return err(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+    }
+
+    const firstRewardCycle = startRewardCycle + 1;
+    const unlockStacksHeight = this.firstStackingBlock! + (firstRewardCycle + lockPeriod) * this.config.rewardCycleLength;
+    const lockedAlready = this.getActiveStackingPosition(member, curRewardCycle)?.amountToken ?? 0n;
+    const until = delegation.untilStacksHeight;
+
+    if (delegation.operator !== sender) {
+      return err(ErrCode.ERR_NOT_DELEGATED);
+    }
+    if (until !== null && BigInt(this.blockHeight) >= until) {
+      return err(ErrCode.ERR_DELEGATION_EXPIRED);
+    }
+    // same checks as stackTokens, for the member
+    if (this.blockHeight >= startStacksHeight) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    const maxLockup = this.config.maxRewardCycles;
+    if (lockPeriod <= 0 || lockPeriod > maxLockup || firstRewardCycle + lockPeriod - (curRewardCycle + 1) > maxLockup) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    if (amountTokens <= 0n) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    if (amountTokens > this.getTokenBalance(member)) {
+      return err(ErrCode.ERR_INSUFFICIENT_BALANCE);
+    }
+    if (until !== null && until < BigInt(unlockStacksHeight)) {
+      return err(ErrCode.ERR_DELEGATION_EXPIRED);
+    }
+    if (amountTokens + lockedAlready > delegation.amountToken) {
+      return err(ErrCode.ERR_CANNOT_STACK);
+    }
+    for (let rc = firstRewardCycle; rc < firstRewardCycle + lockPeriod; rc++) {
+      const operator = this.memberOperatorPerCycle.get(`${member}/${rc}`);
+      if (operator !== undefined && operator !== sender) {
+        return err(ErrCode.ERR_CANNOT_STACK);
+      }
+    }
+
+    this.transferTokens(amountTokens, member, this.contractId);
+    this.stackInCycles(sender, amountTokens, firstRewardCycle, firstRewardCycle + lockPeriod);
+    for (let rc = firstRewardCycle; rc < firstRewardCycle + lockPeriod; rc++) {
+      this.delegatedPerCycle.set(`${sender}/${member}/${rc}`, this.getDelegatedInCycle(sender, member, rc) + amountTokens);
+      this.memberOperatorPerCycle.set(`${member}/${rc}`, sender);
+    }
+    this.setTokensStacked(member, amountTokens, firstRewardCycle + lockPeriod);
+    return ok();
+  }
+
+  claimTokenReward(minedStacksBlockHeight: number, sender: string): Result<true> {
+    const maturity = this.config.tokenRewardMaturity;
+    const randomSample = this.getRandomUintAtBlock(minedStacksBlockHeight + maturity);
+    if (randomSample === null) {
+      return err(ErrCode.ERR_IMMATURE_TOKEN_REWARD);
+    }
+
+    const maximumStacksBlockHeight = this.blockHeight >= maturity ? this.blockHeight - maturity : 0;
+    if (minedStacksBlockHeight >= maximumStacksBlockHeight) {
+      return err(ErrCode.ERR_IMMATURE_TOKEN_REWARD);
+    }
+
+    const block = this.getBlockMiners(minedStacksBlockHeight);
+    if (block.claimed) {
+      return err(ErrCode.ERR_ALREADY_CLAIMED);
+    }
+    if (block.totalUstx === 0n) {
+      return err(ErrCode.ERR_NO_WINNER);
+    }
+    if (!this.isBlockWinner(sender, minedStacksBlockHeight, randomSample)) {
+      return err(ErrCode.ERR_UNAUTHORIZED);
+    }
+
+    this.blockMiners.set(minedStacksBlockHeight, { ...block, claimed: true });
+    this.mint(sender, this.getCoinbaseAmount(minedStacksBlockHeight));
+    this.updateMinerStats(sender, { blocksWon: 1n, tokensEarned: this.getCoinbaseAmount(minedStacksBlockHeight) });
+    return ok();
+  }
+
+  claimTokenRewards(minedStacksBlockHeights: number[], sender: string): Result<Result<true>[]> {
+    return { ok: true, value: minedStacksBlockHeights.map((height) => this.claimTokenReward(height, sender)) };
+  }
+
+  claimStackingReward(targetRewardCycle: number, sender: string): Result<true> {
+    const entitledUstx = this.getEntitledStackingReward(sender, targetRewardCycle, this.blockHeight);
+    if (entitledUstx <= 0n) {
+      return err(ErrCode.ERR_NOTHING_TO_REDEEM);
+    }
+
+    // can't claim again
+    this.stackedPerCycle.set(`${sender}/${targetRewardCycle}`, 0n);
+    this.addClaimedUstx(targetRewardCycle, entitledUstx);
+    this.transferStx(entitledUstx, this.contractId, sender);
+    return ok();
+  }
+
+  claimStackingRewards(targetRewardCycles: number[], sender: string): Result<true> {
+    if (targetRewardCycles.length > this.config.maxRewardCycles) {
+      throw new Error(`Cannot claim more than ${this.config.maxRewardCycles} reward cycles at once`);
+    }
+
+    // duplicate cycles are only paid once, as the first claim zeroes the Stacker's tokens in that cycle
+    const entitled = new Map<number, bigint>();
+    for (const rc of targetRewardCycles) {
+      if (!entitled.has(rc)) {
+        entitled.set(rc, this.getEntitledStackingReward(sender, rc, this.blockHeight));
+      }
+    }
+    let entitledUstx = 0n;
+    entitled.forEach((amountUstx) => entitledUstx += amountUstx);
+    if (entitledUstx <= 0n) {
+      return err(ErrCode.ERR_NOTHING_TO_REDEEM);
+    }
+
+    entitled.forEach((amountUstx, rc) => {
+      if (amountUstx > 0n) {
+        this.stackedPerCycle.set(`${sender}/${rc}`, 0n);
+        this.addClaimedUstx(rc, amountUstx);
+      }
+    });
+    this.transferStx(entitledUstx, this.contractId, sender);
+    return ok();
+  }
+
+    claimUnlockedTokens(sender: string): Result<true> {
+    const unlock = this.stackerUnlocks.get(sender);
+    if (unlock === undefined) {
+      return err(ErrCode.ERR_NOTHING_TO_REDEEM);
+    }
+
+    const curRewardCycle = this.getRewardCycle(this.blockHeight);
+    if (curRewardCycle === null) {
+      return err(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+    }
+    if (unlock.amountToken <= 0n) {
+      return err(ErrCode.ERR_NOTHING_TO_REDEEM);
+    }
+    if (curRewardCycle < unlock.unlockRewardCycle) {
+      return err(ErrCode.ERR_TOKENS_NOT_UNLOCKED);
+    }
+
+    this.stackerUnlocks.delete(sender);
+    this.transferTokens(unlock.amountToken, this.contractId, sender);
+    return ok();
+  }
+
+  setCityWallet(newCityWallet: string, sender: string): Result<true> {
+    if (sender !== this.cityWallet) {
+      return err(ErrCode.ERR_UNAUTHORIZED);
+    }
+
+    this.cityWallet = newCityWallet;
+    return ok();
+  }
+
+  withdrawCityFunds(amountUstx: bigint, sender: string): Result<true> {
+    if (sender !== this.cityWallet) {
+      return err(ErrCode.ERR_UNAUTHORIZED);
+    }
+    if (amountUstx <= 0n) {
+      return err(ErrCode.ERR_NOTHING_TO_REDEEM);
+    }
+    if (amountUstx > this.getCityWalletInfo().unclaimedUstx) {
+      return err(ErrCode.ERR_INSUFFICIENT_BALANCE);
+    }
+
+    this.cityWalletUnclaimedUstx -= amountUstx;
+    this.transferStx(amountUstx, this.contractId, sender);
+    return ok();
+  }
+
+  // private
+
+  private getBlockMiners(stacksBlockHeight: number): BlockMinersEntry {
+    return this.blockMiners.get(stacksBlockHeight) ?? { minersCount: 0n, totalUstx: 0n, claimed: false };
+  }
+
+  // walks down the tree of partial sums from its root, like find-block-winner
+  private findBlockWinner(stacksBlockHeight: number, randomSample: bigint): MinerBounds | null {
+    const block = this.getBlockMiners(stacksBlockHeight);
+    if (block.totalUstx === 0n) {
+      return null;
+    }
+
+    let winningValue = randomSample % block.totalUstx;
+    let node = 1;
+    while (node < this.config.maxMinersPerBlock) {
+      const left = node * 2;
+      const leftSum = this.getMinerSum(stacksBlockHeight, left);
+      if (winningValue < leftSum) {
+        node = left;
+      } else {
+        node = left + 1;
+        winningValue -= leftSum;
+      }
+    }
+    return this.getMinerAtBlockIndex(stacksBlockHeight, node - this.config.maxMinersPerBlock);
+  }
+
+  // a node of the tree of partial sums of a block's commitments (see block-miner-sums)
+  private getMinerSum(stacksBlockHeight: number, node: number): bigint {
+    this.minerEntryReads++;
+    return this.blockMinerSums.get(`${stacksBlockHeight}/${node}`) ?? 0n;
+  }
+
+  // adds `amountUstx` (which may be negative) to the commitment at `index` and the partial sums above it
+  private updateMinerSums(stacksBlockHeight: number, index: number, amountUstx: bigint) {
+    for (let node = this.config.maxMinersPerBlock + index; node >= 1; node = Math.floor(node / 2)) {
+      this.blockMinerSums.set(`${stacksBlockHeight}/${node}`, this.getMinerSum(stacksBlockHeight, node) + amountUstx);
+    }
+  }
+
+  private setTokensMined(miner: string, stacksBlockHeight: number, amountUstx: bigint) {
+    const block = this.getBlockMiners(stacksBlockHeight);
+    const index = Number(block.minersCount);
+    const rc = this.getRewardCycle(stacksBlockHeight)!;
+    const cityUstx = this.getCityShare(amountUstx);
+    const totals = this.getTokensPerCycle(rc);
+
+    this.blockMinerAtIndex.set(`${stacksBlockHeight}/${index}`, { miner, amountUstx });
+    this.updateMinerSums(stacksBlockHeight, index, amountUstx);
+    this.blockMinerIndex.set(`${stacksBlockHeight}/${miner}`, index);
+    this.blockMiners.set(stacksBlockHeight, {
+      minersCount: block.minersCount + 1n,
+      totalUstx: block.totalUstx + amountUstx,
+      claimed: false
+    });
+    this.tokensPerCycle.set(rc, { totalUstx: totals.totalUstx + (amountUstx - cityUstx), totalTokens: totals.totalTokens });
+    this.cityUstxPerCycle.set(rc, this.getCityUstxInCycle(rc) + cityUstx);
+    if (stacksBlockHeight > this.blockHeight) {
+      this.cityUstxPerBlock.set(stacksBlockHeight, this.getCityUstxInBlock(stacksBlockHeight) + cityUstx);
+    }
+    this.cityWalletUnclaimedUstx += cityUstx;
+    this.updateMinerStats(miner, { blocksMined: 1n, ustxSpent: amountUstx });
+  }
+
+  // the last miner takes the removed miner's position
+  private removeMiner(miner: string, stacksBlockHeight: number, amountUstx: bigint) {
+    const block = this.getBlockMiners(stacksBlockHeight);
+    const index = this.blockMinerIndex.get(`${stacksBlockHeight}/${miner}`)!;
+    const lastIndex = Number(block.minersCount) - 1;
+    const last = this.blockMinerAtIndex.get(`${stacksBlockHeight}/${lastIndex}`)!;
+    this.minerEntryReads++;
+
+    if (index < lastIndex) {
+      this.updateMinerSums(stacksBlockHeight, index, last.amountUstx - amountUstx);
+      this.updateMinerSums(stacksBlockHeight, lastIndex, -last.amountUstx);
+      this.blockMinerAtIndex.set(`${stacksBlockHeight}/${index}`, last);
+      this.blockMinerIndex.set(`${stacksBlockHeight}/${last.miner}`, index);
+    } else {
+      this.updateMinerSums(stacksBlockHeight, index, -amountUstx);
+    }
+    this.blockMinerAtIndex.delete(`${stacksBlockHeight}/${lastIndex}`);
+    this.blockMinerIndex.delete(`${stacksBlockHeight}/${miner}`);
+    this.blockMiners.set(stacksBlockHeight, {
+      ...block,
+      minersCount: BigInt(lastIndex),
+      totalUstx: block.totalUstx - amountUstx
+    });
+  }
+
+  // the Stacker's locked tokens, if they don't unlock before the end of the given reward cycle
+  private getActiveStackingPosition(stacker: string, curRewardCycle: number): UnlockRecord | null {
+    const unlock = this.stackerUnlocks.get(stacker);
+    return unlock !== undefined && unlock.amountToken > 0n && curRewardCycle < unlock.unlockRewardCycle ? unlock : null;
+  }
+
+  // like stack-tokens-closure, over the reward cycles [firstRewardCycle, lastRewardCycle)
+  private stackInCycles(stacker: string, amountTokens: bigint, firstRewardCycle: number, lastRewardCycle: number) {
+    for (let rc = firstRewardCycle; rc < lastRewardCycle; rc++) {
+      const totals = this.getTokensPerCycle(rc);
+      this.stackedPerCycle.set(`${stacker}/${rc}`, this.getStackedInCycle(stacker, rc) + amountTokens);
+      this.tokensPerCycle.set(rc, { totalUstx: totals.totalUstx, totalTokens: totals.totalTokens + amountTokens });
+
+      const stackers = this.stackersPerCycle.get(rc) ?? [];
+      if (!stackers.includes(stacker)) {
+        this.stackersPerCycle.set(rc, [...stackers, stacker]);
+      }
+    }
+  }
+
+  private setTokensStacked(stacker: string, amountTokens: bigint, unlockRewardCycle: number) {
+    const unlock = this.stackerUnlocks.get(stacker) ?? { amountToken: 0n, unlockRewardCycle: 0 };
+    this.stackerUnlocks.set(stacker, {
+      amountToken: unlock.amountToken + amountTokens,
+      unlockRewardCycle: Math.max(unlock.unlockRewardCycle, unlockRewardCycle)
+    });
+  }
+
+  private minerStatsRecord(miner: string): MinerStatsRecord {
+    return this.minerStats.get(miner) ?? { blocksMined: 0n, ustxSpent: 0n, blocksWon: 0n, tokensEarned: 0n };
+  }
+
+  private updateMinerStats(miner: string, delta: Partial<MinerStatsRecord>) {
+    const stats = this.minerStatsRecord(miner);
+
+    this.minerStats.set(miner, {
+      blocksMined: stats.blocksMined + (delta.blocksMined ?? 0n),
+      ustxSpent: stats.ustxSpent + (delta.ustxSpent ?? 0n),
+      blocksWon: stats.blocksWon + (delta.blocksWon ?? 0n),
+      tokensEarned: stats.tokensEarned + (delta.tokensEarned ?? 0n)
+    });
+  }
+
+  private addClaimedUstx(rewardCycle: number, amountUstx: bigint) {
+    this.claimedUstxPerCycle.set(rewardCycle, (this.claimedUstxPerCycle.get(rewardCycle) ?? 0n) + amountUstx);
+  }
+
+  private transferStx(amountUstx: bigint, from: string, to: string) {
+    this.stxBalances.set(from, this.getStxBalance(from) - amountUstx);
+    this.stxBalances.set(to, this.getStxBalance(to) + amountUstx);
+  }
+
+  private transferTokens(amountToken: bigint, from: string, to: string) {
+    this.tokenBalances.set(from, this.getTokenBalance(from) - amountToken);
+    this.tokenBalances.set(to, this.getTokenBalance(to) + amountToken);
+  }
+}
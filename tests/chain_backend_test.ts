@@ -0,0 +1,292 @@
+import { Chain, Account, types } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import { assertEquals, assertThrows, assertThrowsAsync } from "https://deno.land/std@0.93.0/testing/asserts.ts";
+import { serve, Server } from "https://deno.land/std@0.93.0/http/server.ts";
+
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  it,
+} from "https://deno.land/x/test_suite@v0.7.0/mod.ts";
+
+import {
+  CityCoinClient,
+  CityCoinReader,
+  ErrCode,
+  MINING_ACTIVATION_DELAY,
+  MINING_ACTIVATION_THRESHOLD
+} from "../src/citycoin-client.ts";
+
+import { ClarinetBackend } from "../src/chain-backend.ts";
+import { HttpBackend } from "../src/http-backend.ts";
+
+import { setupChain } from "./helpers/chain_setup.ts";
+
+const DEPLOYER = "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE";
+const WALLET_1 = "ST1J4G6RR643BCG8G8SR6M2D9Z9KXT2NJDRK3FBTK";
+const WALLET_2 = "ST20ATRN26N9P05V2F1RHFRV24X8C8M3W54E427B2";
+const CONTRACT_ID = `${DEPLOYER}.miamicoin`;
+const CALL_READ = `/v2/contracts/call-read/${DEPLOYER}/miamicoin`;
+
+// serialized (u1) and (u5)
+const U1 = "0x0100000000000000000000000000000001";
+const U5 = "0x0100000000000000000000000000000005";
+// serialized [{ miner: WALLET_1, amount-ustx: u100 }, { miner: WALLET_2, amount-ustx: u300 }]
+const MINERS_AT_5 = "0x0b000000020c000000020b616d6f756e742d757374780100000000000000000000000000000064056d696e6572051a"
+  + "64481b183106b6411046706a09a9fa67dd0ab26e0c000000020b616d6f756e742d75737478010000000000000000000000000000012c"
+  + "056d696e6572051a80ad62a23553601762787117e3622750c4507c29";
+
+interface Recording {
+  method: string,
+  path: string,
+  // the JSON body of POSTs
+  body?: unknown,
+  status?: number,
+  response: unknown
+}
+
+// responses of a Stacks node to the requests HttpBackend sends for the tests below
+const RECORDINGS: Recording[] = [
+  {
+    method: "POST",
+    path: `${CALL_READ}/get-miner-stats`,
+    body: { sender: DEPLOYER, arguments: ["0x051a64481b183106b6411046706a09a9fa67dd0ab26e"] },
+    response: {
+      okay: true,
+      result: "0x0c00000005126176672d757374782d7065722d626c6f636b01000000000000000000000000000000960c626c6f636b732d6d"
+        + "696e656401000000000000000000000000000000020a626c6f636b732d776f6e01000000000000000000000000000000010d746f6b"
+        + "656e732d6561726e65640100000000000000000000003a352944000a757374782d7370656e74010000000000000000000000000000012c"
+    }
+  },
+  {
+    method: "POST",
+    path: `${CALL_READ}/get-miners-at-block`,
+    body: { sender: DEPLOYER, arguments: [U5] },
+    response: { okay: true, result: MINERS_AT_5 }
+  },
+  {
+    method: "POST",
+    path: `${CALL_READ}/get-miner-at-block-index`,
+    body: { sender: DEPLOYER, arguments: [U5, U1] },
+    response: {
+      okay: true,
+      result: "0x0a0c000000050b616d6f756e742d75737478010000000000000000000000000000012c046869676801000000000000000000"
+        + "0000000000019005696e6465780100000000000000000000000000000001036c6f770100000000000000000000000000000064056d"
+        + "696e6572051a80ad62a23553601762787117e3622750c4507c29"
+    }
+  },
+  {
+    method: "POST",
+    path: `${CALL_READ}/get-block-summary`,
+    body: { sender: DEPLOYER, arguments: [U5] },
+    response: {
+      okay: true,
+      result: "0x0c0000000607636c61696d65640408636f696e626173650100000000000000000000003a352944000c636f6d6d69742d746f74"
+        + "616c0100000000000000000000000000000190066d696e657273010000000000000000000000000000000204766f6964040677696e"
+        + "6e65720a051a80ad62a23553601762787117e3622750c4507c29"
+    }
+  },
+  {
+    method: "POST",
+    path: `${CALL_READ}/get-city-wallet-info`,
+    body: { sender: DEPLOYER, arguments: [] },
+    response: {
+      okay: true,
+      result: "0x0c000000030b636974792d77616c6c6574051a1cb47f8437bf2201c3b1d4241f0b93f968fab7120973706c69742d7063740100"
+        + "00000000000000000000000000001e0e756e636c61696d65642d75737478010000000000000000000000000000012c"
+    }
+  },
+  {
+    method: "POST",
+    path: `${CALL_READ}/get-coinbase-epoch-info`,
+    body: { sender: DEPLOYER, arguments: [] },
+    response: { okay: true, result: "0x080100000000000000000000000000000005" }
+  },
+  {
+    method: "POST",
+    path: `${CALL_READ}/get-token-uri`,
+    body: { sender: DEPLOYER, arguments: [] },
+    response: {
+      okay: true,
+      result: "0x070a0e0000002c68747470733a2f2f63697479636f696e732e636f2f6d657461646174612f6d69616d69636f696e2e6a736f6e"
+    }
+  },
+  {
+    method: "POST",
+    path: `${CALL_READ}/get-nothing`,
+    body: { sender: DEPLOYER, arguments: [] },
+    response: { okay: false, cause: "Unchecked(NoSuchPublicFunction(\"miamicoin\", \"get-nothing\"))" }
+  },
+  {
+    method: "POST",
+    path: `/v2/map_entry/${DEPLOYER}/miamicoin/block-miners?proof=0`,
+    body: "0x0c0000000113737461636b732d626c6f636b2d6865696768740100000000000000000000000000000005",
+    response: {
+      data: "0x0a0c0000000307636c61696d6564040c6d696e6572732d636f756e7401000000000000000000000000000000020a746f74616c2d"
+        + "757374780100000000000000000000000000000190"
+    }
+  },
+  {
+    method: "POST",
+    path: `/v2/map_entry/${DEPLOYER}/miamicoin/block-miners?proof=0`,
+    body: "0x0c0000000113737461636b732d626c6f636b2d6865696768740100000000000000000000000000000006",
+    response: { data: "0x09" }
+  },
+  {
+    method: "GET",
+    path: `/v2/accounts/${WALLET_1}?proof=0`,
+    response: { balance: "0x0000000000000000000000e8d4a51000", locked: "0x00000000000000000000000000000000", unlock_height: 0, nonce: 7 }
+  },
+  {
+    method: "GET",
+    path: "/v2/fees/transfer",
+    response: 1
+  }
+];
+
+// answers every request with its recording, or a 404 if it wasn't recorded
+async function replayRecordings(server: Server) {
+  for await (const request of server) {
+    const body = new TextDecoder().decode(await Deno.readAll(request.body));
+    const recording = RECORDINGS.find((r) => r.method === request.method && r.path === request.url
+      && (r.body === undefined || JSON.stringify(r.body) === body));
+
+    await request.respond(recording
+      ? { status: recording.status ?? 200, body: JSON.stringify(recording.response) }
+      : { status: 404, body: `no recording for ${request.method} ${request.url} ${body}` });
+  }
+}
+
+describe('[Chain backends]', () => {
+  describe("HttpBackend", () => {
+    let server: Server;
+    let backend: HttpBackend;
+    let reader: CityCoinReader;
+
+    beforeAll(() => {
+      server = serve({ hostname: "127.0.0.1", port: 0 });
+      replayRecordings(server);
+
+      backend = new HttpBackend(`http://127.0.0.1:${(server.listener.addr as { port: number }).port}/`);
+      reader = new CityCoinReader(backend, CONTRACT_ID);
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("calls read-only functions and decodes their results", async () => {
+      assertEquals(await reader.getMinerStats(WALLET_1), {
+        blocksMined: 2n,
+        ustxSpent: 300n,
+        blocksWon: 1n,
+        tokensEarned: 250000000000n,
+        avgUstxPerBlock: 150n
+      });
+      assertEquals(await reader.getMinersAtBlock(5), [
+        { miner: WALLET_1, amountUstx: 100n },
+        { miner: WALLET_2, amountUstx: 300n }
+      ]);
+      assertEquals(await reader.getMinerAtBlockIndex(5, 1), {
+        index: 1n,
+        miner: WALLET_2,
+        amountUstx: 300n,
+        low: 100n,
+        high: 400n
+      });
+      assertEquals(await reader.getBlockSummary(5), {
+        stacksBlockHeight: 5,
+        miners: 2n,
+        commitTotal: 400n,
+        winner: WALLET_2,
+        claimed: false,
+        coinbase: 250000000000n,
+        void: false
+      });
+      assertEquals(await reader.getCityWalletInfo(), {
+        cityWallet: "STEB8ZW46YZJ40E3P7A287RBJFWPHYNQ2AB5ECT8",
+        splitPct: 30n,
+        unclaimedUstx: 300n
+      });
+      assertEquals(await reader.getCoinbaseEpochInfo(), { ok: false, error: ErrCode.ERR_STACKING_NOT_AVAILABLE });
+      assertEquals(await reader.getTokenUri(), { ok: true, value: "https://citycoins.co/metadata/miamicoin.json" });
+    });
+
+    it("rejects read-only calls the node can't run", async () => {
+      await assertThrowsAsync(async () => {
+        await backend.callReadOnly(CONTRACT_ID, "get-nothing", [], DEPLOYER);
+      }, Error, "NoSuchPublicFunction");
+    });
+
+    it("reads map entries", async () => {
+      assertEquals(await reader.getBlockMinersEntry(5), {
+        minersCount: 2n,
+        totalUstx: 400n,
+        claimed: false
+      });
+      assertEquals(await reader.getBlockMinersEntry(6), null);
+    });
+
+    it("looks up nonces and the fee rate", async () => {
+      assertEquals(await backend.getNonce(WALLET_1), 7n);
+      assertEquals(await backend.getFeeRate(), 1n);
+    });
+
+    it("rejects requests the node fails", async () => {
+      await assertThrowsAsync(async () => {
+        await backend.getNonce(WALLET_2);
+      }, Error, "HTTP 404");
+    });
+  });
+
+  describe("ClarinetBackend", () => {
+    let chain: Chain;
+    let backend: ClarinetBackend;
+    let client: CityCoinClient;
+    let wallets: Account[];
+
+    function setupBackend() {
+      let accounts: Map<string, Account>;
+      ({ chain, accounts } = setupChain());
+      wallets = [...Array(MINING_ACTIVATION_THRESHOLD).keys()].map((i) => accounts.get(`wallet_${i + 1}`)!);
+      backend = new ClarinetBackend(chain);
+      client = new CityCoinClient(chain, accounts.get('deployer')!);
+    }
+
+    it("rebuilds block-miners entries from get-block-summary, and can't read other maps", () => {
+      setupBackend();
+      chain.mineBlock(wallets.map((wallet) => client.registerMiner(wallet)));
+      chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+      const height = chain.mineBlock([
+        client.mineTokens(100, wallets[0]),
+        client.mineTokens(300, wallets[1])
+      ]).height;
+
+      assertEquals(client.getBlockMinersEntry(height), {
+        minersCount: 2n,
+        totalUstx: 400n,
+        claimed: false
+      });
+      assertEquals(client.getBlockMinersEntry(height + 1), null);
+      assertThrows(
+        () => backend.getMapEntry(client.getContractAddress(), "tokens-per-cycle", types.tuple({
+          "reward-cycle": types.uint(1)
+        })),
+        Error,
+        "can't read the tokens-per-cycle map"
+      );
+    });
+
+    it("counts the transactions it mined towards nonces, and has no fees", () => {
+      setupBackend();
+
+      assertEquals(backend.getNonce(wallets[0].address), 0n);
+      backend.mineBlock([client.registerMiner(wallets[0]), client.registerMiner(wallets[1])]);
+      backend.mineBlock([client.registerMiner(wallets[0])]);
+
+      assertEquals(backend.getNonce(wallets[0].address), 2n);
+      assertEquals(backend.getNonce(wallets[1].address), 1n);
+      assertEquals(backend.getFeeRate(), 0n);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.93.0/testing/asserts.ts";
+
+import {
+  describe,
+  it,
+} from "https://deno.land/x/test_suite@v0.7.0/mod.ts";
+
+import {
+  decodeClarityValue,
+} from "../src/clarity-decoder.ts";
+
+import {
+  ReceiptEvent,
+  decodeCityCoinEvent,
+  parseCityCoinEvents,
+} from "../src/citycoin-events.ts";
+
+const CONTRACT_ID = "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE.citycoin";
+const MINER = "ST1J4G6RR643BCG8G8SR6M2D9Z9KXT2NJDRK3FBTK";
+
+function printEvent(contractId: string, value: string): ReceiptEvent {
+  return {
+    type: "contract_event",
+    contract_event: {
+      contract_identifier: contractId,
+      topic: "print",
+      value: value
+    }
+  };
+}
+
+describe('[CityCoin events]', () => {
+  describe("decodeCityCoinEvent()", () => {
+    it("decodes a mine event", () => {
+      const value = decodeClarityValue(
+        `{amount-ustx: u100, cycle: u2, event: "mine", height: u1200, miner: ${MINER}, version: u1}`
+      );
+
+      assertEquals(decodeCityCoinEvent(value), {
+        event: "mine",
+        version: 1n,
+        miner: MINER,
+        height: 1200n,
+        amountUstx: 100n,
+        cycle: 2n
+      });
+    });
+
+    it("decodes optional fields", () => {
+      const value = decodeClarityValue(
+        `{activation-block: (some u150), event: "register", miner: ${MINER}, registered-miners: u5, version: u1}`
+      );
+
+      assertEquals(decodeCityCoinEvent(value), {
+        event: "register",
+        version: 1n,
+        miner: MINER,
+        registeredMiners: 5n,
+        activationBlock: 150n
+      });
+    });
+
+    it("returns null for values that aren't events", () => {
+      assertEquals(decodeCityCoinEvent(decodeClarityValue("0x6d656d6f")), null);
+      assertEquals(decodeCityCoinEvent(decodeClarityValue("{amount: u1}")), null);
+      assertEquals(decodeCityCoinEvent(decodeClarityValue('{event: "unknown", version: u1}')), null);
+    });
+
+    it("throws when a known event doesn't match its schema", () => {
+      assertThrows(() => decodeCityCoinEvent(decodeClarityValue('{event: "mine", version: u1}')));
+    });
+  });
+
+  describe("parseCityCoinEvents()", () => {
+    it("only returns events printed by the given contract, in order", () => {
+      const events: ReceiptEvent[] = [
+        { type: "stx_transfer_event" },
+        printEvent(CONTRACT_ID, `{city-wallet: ${MINER}, event: "set-city-wallet", version: u1}`),
+        printEvent("ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE.other", `{city-wallet: ${MINER}, event: "set-city-wallet", version: u1}`),
+        printEvent(CONTRACT_ID, "0x6d656d6f"),
+        printEvent(CONTRACT_ID, `{amount-token: u10, event: "claim-unlocked-tokens", stacker: ${MINER}, version: u1}`),
+      ];
+
+      assertEquals(parseCityCoinEvents(events, CONTRACT_ID), [
+        { event: "set-city-wallet", version: 1n, cityWallet: MINER },
+        { event: "claim-unlocked-tokens", version: 1n, stacker: MINER, amountToken: 10n }
+      ]);
+    });
+  });
+});
@@ -12,13 +12,38 @@ import {
 import {
   CityCoinClient,
   MinersList,
-  MinersRec,
   ErrCode,
   FIRST_STACKING_BLOCK,
   REWARD_CYCLE_LENGTH,
-  MINING_ACTIVATION_DELAY
+  MINING_ACTIVATION_THRESHOLD,
+  MINING_ACTIVATION_DELAY,
+  TOKEN_REWARD_MATURITY,
+  MAX_REWARD_CYCLES,
+  CITY_WALLET_SPLIT_PCT,
+  MAX_MINERS_PER_BLOCK,
+  MAX_MINE_MANY_BLOCKS,
+  TOKEN_URI,
+  ProposalKind,
+  PROPOSAL_VOTING_PERIOD
 } from "../src/citycoin-client.ts"
 
+import {
+  c32Address
+} from "../src/c32.ts"
+
+import {
+  COINBASE_BONUS_PERIOD,
+  COINBASE_EPOCH_LENGTH,
+  coinbaseEpoch,
+  expectedCoinbase
+} from "../src/coinbase-schedule.ts"
+
+import {
+  EVENT_SCHEMA_VERSION
+} from "../src/citycoin-events.ts"
+
+import { setupChain } from "./helpers/chain_setup.ts"
+
 describe('[CityCoin]', () => {
   let chain: Chain;
   let accounts: Map<string, Account>;
@@ -27,29 +52,42 @@ describe('[CityCoin]', () => {
   let wallet_1: Account;
   let wallet_2: Account;
   let wallet_3: Account;
+  let wallet_4: Account;
+  let wallet_5: Account;
 
   function setupCleanEnv() {
-    (Deno as any).core.ops();
-    let transactions: Array<Tx> = [];
-    let result = (Deno as any).core.jsonOpSync("setup_chain", {
-      transactions: transactions,
-    });
-
-    chain = new Chain(result['session_id']);
-    accounts = new Map();
-
-    for (let account of result['accounts']) {
-      accounts.set(account.name, account);
-    }
+    ({ chain, accounts } = setupChain());
 
     deployer = accounts.get('deployer')!;
     wallet_1 = accounts.get('wallet_1')!;
     wallet_2 = accounts.get('wallet_2')!;
     wallet_3 = accounts.get('wallet_3')!;
+    wallet_4 = accounts.get('wallet_4')!;
+    wallet_5 = accounts.get('wallet_5')!;
 
     client = new CityCoinClient(chain, deployer);
   }
 
+  // register enough miners in a single block to kickoff the countdown to mining activation
+  function activateMining() {
+    return chain.mineBlock(
+      [wallet_1, wallet_2, wallet_3, wallet_4, wallet_5].map((wallet) => client.registerMiner(wallet))
+    );
+  }
+
+  // accounts that aren't in Clarinet.toml, each funded with `balance` uSTX by the deployer, for blocks with
+  // more miners than there are wallets
+  function fundedAccounts(count: number, balance: number): Account[] {
+    const funded = [...Array(count).keys()].map((i) => {
+      const hash160 = new Uint8Array(20).fill(0xc1);
+      hash160[18] = i >> 8;
+      hash160[19] = i & 0xff;
+      return { address: c32Address(26, hash160), balance, name: `funded_${i}`, mnemonic: "", derivation: "" };
+    });
+    chain.mineBlock(funded.map((account) => Tx.transferSTX(balance, account.address, deployer.address)));
+    return funded;
+  }
+
   describe("SIP-010 api:", () => {
     setupCleanEnv();
 
@@ -65,79 +103,168 @@ describe('[CityCoin]', () => {
         assertEquals(block.receipts.length, 1);
         block.receipts[0].result.expectErr().expectUint(3);
       });
+
+      it("succeeds and causes one ft_transfer_event", () => {
+        chain.mineBlock([
+          client.ftMint(100, wallet_1)
+        ]);
+
+        const block = chain.mineBlock([
+          client.transfer(10, wallet_1, wallet_2, wallet_1)
+        ]);
+
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(block.receipts[0].events.length, 1);
+        block.receipts[0].events.expectFungibleTokenTransferEvent(
+          10,
+          wallet_1.address,
+          wallet_2.address,
+          "citycoins"
+        );
+      });
+
+      it("prints the memo", () => {
+        chain.mineBlock([
+          client.ftMint(100, wallet_1)
+        ]);
+        const memo = new TextEncoder().encode("citycoins memo");
+
+        const block = chain.mineBlock([
+          client.transfer(10, wallet_1, wallet_2, wallet_1, memo.buffer)
+        ]);
+
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(block.receipts[0].events.length, 2);
+        block.receipts[0].events.expectPrintEvent(
+          client.getContractAddress(),
+          types.buff(memo.buffer)
+        );
+      });
     });
 
     describe("get-name()", () => {
       it("should return 'citycoins'", () => {
-        const result = client.getName().result;
+        const result = client.getName();
 
-        result.expectOk().expectAscii("citycoins");
+        assertEquals(result, { ok: true, value: "citycoins" });
       });
     });
 
     describe("get-symbol()", () => {
       it("should return 'CYCN'", () => {
-        const result = client.getSymbol().result;
+        const result = client.getSymbol();
 
-        result.expectOk().expectAscii("CYCN");
+        assertEquals(result, { ok: true, value: "CYCN" });
       });
     });
 
     describe("get-decimals()", () => {
       it("should return 6", () => {
-        const result = client.getDecimals().result;
+        const result = client.getDecimals();
 
-        result.expectOk().expectUint(6);
+        assertEquals(result, { ok: true, value: 6n });
       });
     });
 
-    describe("get-balance-of()", () => {
+    describe("get-balance()", () => {
       it("should return 0", () => {
-        const result = client.getBalanceOf(wallet_1).result;
+        const result = client.getBalance(wallet_3);
 
-        result.expectOk().expectUint(0);
+        assertEquals(result, { ok: true, value: 0n });
       });
 
       it("should return 100", () => {
         chain.mineBlock([
-          client.ftMint(100, wallet_1)
+          client.ftMint(100, wallet_3)
         ]);
 
-        const result = client.getBalanceOf(wallet_1).result;
+        const result = client.getBalance(wallet_3);
 
-        result.expectOk().expectUint(100);
+        assertEquals(result, { ok: true, value: 100n });
       });
     });
 
     describe("get-total-supply()", () => {
       it("should return 0", () => {
-        const result = client.getTotalSupply().result;
+        setupCleanEnv();
 
-        result.expectOk().expectUint(0);
+        const result = client.getTotalSupply();
+
+        assertEquals(result, { ok: true, value: 0n });
       });
 
-      it("should return 100", () => {
-        chain.mineBlock([
-          client.registerMiner(wallet_1)
-        ]);
+      it("matches the minted amount after claim-token-reward", () => {
+        setupCleanEnv();
+        activateMining();
         // skip mining activation delay period
         chain.mineEmptyBlock(MINING_ACTIVATION_DELAY)
 
-        chain.mineBlock([
+        const block = chain.mineBlock([
           client.mineTokens(100, wallet_1)
         ]);
+        const minedHeight = block.height;
 
-        const result = client.getTotalSupply().result;
+        assertEquals(client.getTotalSupply(), { ok: true, value: 0n });
 
-        result.expectOk().expectUint(100);
+        chain.mineEmptyBlockUntil(minedHeight + TOKEN_REWARD_MATURITY + 1);
+        const claimBlock = chain.mineBlock([
+          client.claimTokenReward(minedHeight, wallet_1)
+        ]);
+        claimBlock.receipts[0].result.expectOk().expectBool(true);
+
+        const coinbase = client.getCoinbaseAmount(minedHeight);
+        assertEquals(client.parseEvents(claimBlock.receipts[0].events), [
+          {
+            event: "claim-token-reward",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            miner: wallet_1.address,
+            height: BigInt(minedHeight),
+            amountToken: coinbase
+          }
+        ]);
+        assertEquals(client.getTotalSupply(), { ok: true, value: coinbase });
+        assertEquals(client.getBalance(wallet_1), { ok: true, value: coinbase });
       });
     });
 
     describe("get-token-uri()", () => {
-      it("should return none", () => {
-        const result = client.getTokenUri().result;
+      it("should return the token metadata URI", () => {
+        const result = client.getTokenUri();
+
+        assertEquals(result, { ok: true, value: TOKEN_URI });
+      });
+    });
+
+    describe("set-token-uri()", () => {
+      beforeEach(() => {
+        setupCleanEnv();
+      });
+
+      it("throws ERR_UNAUTHORIZED error when called by someone other than the custodian", () => {
+        const block = chain.mineBlock([
+          client.setTokenUri("https://example.com/citycoin.json", wallet_1)
+        ]);
 
-        result.expectOk().expectNone();
+        block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        assertEquals(client.getTokenUri(), { ok: true, value: TOKEN_URI });
+      });
+
+      it("succeeds and changes the token metadata URI", () => {
+        const block = chain.mineBlock([
+          client.setTokenUri("https://example.com/citycoin.json", deployer),
+          client.setTokenUri(null, deployer)
+        ]);
+
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectBool(true);
+        assertEquals(client.getTokenUri(), { ok: true, value: null });
+        assertEquals(client.parseEvents(block.receipts[0].events), [
+          {
+            event: "set-token-uri",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            tokenUri: "https://example.com/citycoin.json"
+          }
+        ]);
       });
     });
   });
@@ -149,9 +276,9 @@ describe('[CityCoin]', () => {
       it("should return 0 when miners list is empty", () => {
         const miners = new MinersList();
 
-        const result = client.getBlockCommitTotal(miners).result;
+        const result = client.getBlockCommitTotal(miners);
 
-        result.expectUint(0);
+        assertEquals(result, 0n);
       })
 
       it("should return 100", () => {
@@ -161,9 +288,9 @@ describe('[CityCoin]', () => {
           { miner: wallet_2, amountUstx: 70 },
         )
 
-        const result = client.getBlockCommitTotal(miners).result;
+        const result = client.getBlockCommitTotal(miners);
 
-        result.expectUint(100);
+        assertEquals(result, 100n);
       });
     });
 
@@ -179,8 +306,7 @@ describe('[CityCoin]', () => {
         const known_rnd_winners = [0, 1, 1, 2, 2, 2, 0, 1, 1, 2, 2, 2, 0]
 
         known_rnd_winners.forEach((e, i) => {
-          let result = client.getBlockWinner(i, miners).result;
-          let winner = result.expectSome().expectTuple();
+          let winner = client.getBlockWinner(i, miners);
           let expectedWinner = miners.getFormatted(e)
 
           assertEquals(winner, expectedWinner);
@@ -188,186 +314,245 @@ describe('[CityCoin]', () => {
       });
 
       it("should return no winner if there are no miners", () => {
-        const result = client.getBlockWinner(0, new MinersList()).result;
+        const result = client.getBlockWinner(0, new MinersList());
 
-        result.expectNone();
+        assertEquals(result, null);
       });
     });
 
-    describe("has-mined-in-list()", () => {
-      const miners = new MinersList();
-      miners.push(
-        { miner: wallet_1, amountUstx: 1 },
-        { miner: wallet_2, amountUstx: 2 },
-      );
+    describe("has-mined-at-block()", () => {
+      it("returns true only if the miner committed to the block", () => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+        const block = chain.mineBlock([
+          client.mineTokens(1, wallet_1),
+          client.mineTokens(2, wallet_2)
+        ]);
 
-      it("returns true if miner is in a list", () => {
-        const result = client.hasMinedInList(wallet_2, miners).result;
+        assertEquals(client.hasMinedAtBlock(wallet_2, block.height), true);
+        assertEquals(client.hasMinedAtBlock(wallet_3, block.height), false);
+        assertEquals(client.hasMinedAtBlock(wallet_2, block.height + 1), false);
+      });
+    });
 
-        result.expectBool(true);
-      })
+    describe("get-miner-at-block()", () => {
+      it("returns each miner's position and the bounds of their commitment", () => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+        const block = chain.mineBlock([
+          client.mineTokens(1, wallet_1),
+          client.mineTokens(2, wallet_2),
+          client.mineTokens(3, wallet_3)
+        ]);
+
+        assertEquals(client.getMinerAtBlock(wallet_1, block.height), { index: 0n, miner: wallet_1.address, amountUstx: 1n, low: 0n, high: 1n });
+        assertEquals(client.getMinerAtBlock(wallet_2, block.height), { index: 1n, miner: wallet_2.address, amountUstx: 2n, low: 1n, high: 3n });
+        assertEquals(client.getMinerAtBlock(wallet_3, block.height), { index: 2n, miner: wallet_3.address, amountUstx: 3n, low: 3n, high: 6n });
+        assertEquals(client.getMinerAtBlock(wallet_4, block.height), null);
+        assertEquals(client.getMinerAtBlockIndex(block.height, 1), client.getMinerAtBlock(wallet_2, block.height));
+        assertEquals(client.getMinerAtBlockIndex(block.height, 3), null);
+      });
+    });
 
-      it("returns false if miner is not in a list", () => {
-        const result = client.hasMinedInList(wallet_3, miners).result;
+    describe("is-block-winner()", () => {
+      it("agrees with get-block-winner on every sample", () => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+        const block = chain.mineBlock([
+          client.mineTokens(1, wallet_1),
+          client.mineTokens(2, wallet_2),
+          client.mineTokens(3, wallet_3)
+        ]);
+        const miners = new MinersList();
+        miners.push(
+          { miner: wallet_1, amountUstx: 1 },
+          { miner: wallet_2, amountUstx: 2 },
+          { miner: wallet_3, amountUstx: 3 },
+        );
 
-        result.expectBool(false);
+        for (let sample = 0; sample < 12; sample++) {
+          const winner = client.getBlockWinner(sample, miners)!;
+          for (const wallet of [wallet_1, wallet_2, wallet_3, wallet_4]) {
+            assertEquals(client.isBlockWinner(wallet, block.height, sample), wallet.address === winner.miner, `sample ${sample}`);
+          }
+        }
       });
     });
 
     describe("can-claim-tokens()", () => {
-      const miners = new MinersList();
-      miners.push(
-        { miner: wallet_1, amountUstx: 1 },
-        { miner: wallet_2, amountUstx: 2 },
-        { miner: wallet_3, amountUstx: 3 },
-      );
-
-      const claimedRec = new MinersRec(miners, true);
-      const unclaimedRec = new MinersRec(miners, false);
-      const tokenRewardMaturity = 100;
+      let minedHeight: number;
 
+      // wallet_1, wallet_2 and wallet_3 commit 1, 2 and 3 uSTX to the same block
+      function mineCommits() {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+        minedHeight = chain.mineBlock([
+          client.mineTokens(1, wallet_1),
+          client.mineTokens(2, wallet_2),
+          client.mineTokens(3, wallet_3)
+        ]).height;
+      }
 
       it("returns true", () => {
-        const currentStacksBlock = tokenRewardMaturity + 1;
+        mineCommits();
+        const currentStacksBlock = minedHeight + TOKEN_REWARD_MATURITY + 1;
         const results = [
-          client.canClaimTokens(wallet_1, 0, 0, unclaimedRec, currentStacksBlock).result,
-          client.canClaimTokens(wallet_2, 0, 1, unclaimedRec, currentStacksBlock).result,
-          client.canClaimTokens(wallet_2, 0, 2, unclaimedRec, currentStacksBlock).result,
-          client.canClaimTokens(wallet_3, 0, 3, unclaimedRec, currentStacksBlock).result,
-          client.canClaimTokens(wallet_3, 0, 4, unclaimedRec, currentStacksBlock).result,
-          client.canClaimTokens(wallet_3, 0, 5, unclaimedRec, currentStacksBlock).result,
-          client.canClaimTokens(wallet_1, 0, 6, unclaimedRec, currentStacksBlock).result,
+          client.canClaimTokens(wallet_1, minedHeight, 0, currentStacksBlock),
+          client.canClaimTokens(wallet_2, minedHeight, 1, currentStacksBlock),
+          client.canClaimTokens(wallet_2, minedHeight, 2, currentStacksBlock),
+          client.canClaimTokens(wallet_3, minedHeight, 3, currentStacksBlock),
+          client.canClaimTokens(wallet_3, minedHeight, 4, currentStacksBlock),
+          client.canClaimTokens(wallet_3, minedHeight, 5, currentStacksBlock),
+          client.canClaimTokens(wallet_1, minedHeight, 6, currentStacksBlock),
         ];
 
         results.forEach((result) => {
-          result.expectOk().expectBool(true);
+          assertEquals(result, { ok: true, value: true });
         });
       });
 
       it("throws ERR_UNAUTHORIZED error", () => {
-        const currentStacksBlock = tokenRewardMaturity + 1;
+        mineCommits();
+        const currentStacksBlock = minedHeight + TOKEN_REWARD_MATURITY + 1;
 
         const results = [
-          client.canClaimTokens(wallet_2, 0, 0, unclaimedRec, currentStacksBlock).result,
-          client.canClaimTokens(wallet_1, 0, 1, unclaimedRec, currentStacksBlock).result,
-          client.canClaimTokens(wallet_3, 0, 2, unclaimedRec, currentStacksBlock).result,
+          client.canClaimTokens(wallet_2, minedHeight, 0, currentStacksBlock),
+          client.canClaimTokens(wallet_1, minedHeight, 1, currentStacksBlock),
+          client.canClaimTokens(wallet_3, minedHeight, 2, currentStacksBlock),
+          client.canClaimTokens(wallet_4, minedHeight, 3, currentStacksBlock),
         ]
 
         results.forEach((result) => {
-          result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+          assertEquals(result, { ok: false, error: ErrCode.ERR_UNAUTHORIZED });
         });
       });
 
+      it("picks the winner with random samples above 2^53, which a number can't hold", () => {
+        mineCommits();
+        const currentStacksBlock = minedHeight + TOKEN_REWARD_MATURITY + 1;
+        // 2^60 + 2 is 0 modulo the 6 uSTX committed, while the closest number, 2^60, is 4
+        const randomSample = 2n ** 60n + 2n;
+
+        assertEquals(client.canClaimTokens(wallet_1, minedHeight, randomSample, currentStacksBlock), { ok: true, value: true });
+        assertEquals(
+          client.canClaimTokens(wallet_3, minedHeight, randomSample, currentStacksBlock),
+          { ok: false, error: ErrCode.ERR_UNAUTHORIZED }
+        );
+      });
+
       it("throws ERR_IMMATURE_TOKEN_REWARD", () => {
-        const result = client.canClaimTokens(wallet_1, 0, 0, unclaimedRec, tokenRewardMaturity).result;
+        mineCommits();
+        const result = client.canClaimTokens(wallet_1, minedHeight, 0, minedHeight + TOKEN_REWARD_MATURITY);
 
-        result.expectErr().expectUint(ErrCode.ERR_IMMATURE_TOKEN_REWARD);
+        assertEquals(result, { ok: false, error: ErrCode.ERR_IMMATURE_TOKEN_REWARD });
+      });
+
+      it("throws ERR_NO_WINNER error if nobody mined the block", () => {
+        mineCommits();
+        const result = client.canClaimTokens(wallet_1, minedHeight + 1, 0, minedHeight + TOKEN_REWARD_MATURITY + 2);
+
+        assertEquals(result, { ok: false, error: ErrCode.ERR_NO_WINNER });
       });
 
       it("throws ERR_ALREADY_CLAIMED error", () => {
-        const currentStacksBlock = tokenRewardMaturity + 1;
-        const result = client.canClaimTokens(wallet_1, 0, 0, claimedRec, currentStacksBlock).result;
+        mineCommits();
+        chain.mineEmptyBlockUntil(minedHeight + TOKEN_REWARD_MATURITY + 1);
+        const winner = [wallet_1, wallet_2, wallet_3].find((wallet) => wallet.address === client.getBlockSummary(minedHeight).winner)!;
+        chain.mineBlock([
+          client.claimTokenReward(minedHeight, winner)
+        ]).receipts[0].result.expectOk().expectBool(true);
 
-        result.expectErr().expectUint(ErrCode.ERR_ALREADY_CLAIMED);
+        const result = client.canClaimTokens(wallet_1, minedHeight, 0, chain.blockHeight);
+
+        assertEquals(result, { ok: false, error: ErrCode.ERR_ALREADY_CLAIMED });
       });
     });
 
     describe("can-mine-tokens()", () => {
-      const miners = new MinersList();
-      miners.push(
-        { miner: wallet_1, amountUstx: 1 },
-        { miner: wallet_2, amountUstx: 2 },
-      );
-
-      const minersFull = new MinersList();
-      for (let i = 1; i <= 32; i++) {
-        minersFull.push({ miner: wallet_1, amountUstx: 10 })
-      }
-
-      const minersRec = new MinersRec(miners, false);
-      const minersRecFull = new MinersRec(minersFull, false);
-
       it("returns true", () => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
-        ]);
+        activateMining();
         const block = chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
 
-        const result = client.canMineTokens(wallet_3, block.block_height, 10, minersRec).result;
+        const result = client.canMineTokens(wallet_3, block.block_height, 10);
 
-        result.expectOk().expectBool(true);
+        assertEquals(result, { ok: true, value: true });
       });
 
       it("throws ERR_STACKING_NOT_AVAILABLE error", () => {
         setupCleanEnv();
-        const result = client.canMineTokens(wallet_3, 0, 10, minersRec).result;
+        const result = client.canMineTokens(wallet_3, 0, 10);
 
-        result.expectErr().expectUint(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+        assertEquals(result, { ok: false, error: ErrCode.ERR_STACKING_NOT_AVAILABLE });
       });
 
       it("throws ERR_ROUND_FULL error", () => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+        const miners = fundedAccounts(MAX_MINERS_PER_BLOCK, 1000);
+        const block = chain.mineBlock([
+          ...miners.map((miner) => client.mineTokens(10, miner)),
+          client.mineTokens(10, wallet_1)
         ]);
-        const block = chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
 
-        const result = client.canMineTokens(wallet_2, block.block_height, 10, minersRecFull).result;
+        block.receipts[MAX_MINERS_PER_BLOCK - 1].result.expectOk().expectBool(true);
+        block.receipts[MAX_MINERS_PER_BLOCK].result.expectErr().expectUint(ErrCode.ERR_ROUND_FULL);
 
-        result.expectErr().expectUint(ErrCode.ERR_ROUND_FULL);
+        const result = client.canMineTokens(wallet_2, block.height, 10);
+
+        assertEquals(result, { ok: false, error: ErrCode.ERR_ROUND_FULL });
       });
 
       it("throws ERR_ALREADY_MINED error", () => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+        const block = chain.mineBlock([
+          client.mineTokens(1, wallet_1)
         ]);
-        const block = chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
 
-        const result = client.canMineTokens(wallet_1, block.block_height, 10, minersRec).result;
+        const result = client.canMineTokens(wallet_1, block.height, 10);
 
-        result.expectErr().expectUint(ErrCode.ERR_ALREADY_MINED);
+        assertEquals(result, { ok: false, error: ErrCode.ERR_ALREADY_MINED });
       });
 
       it("throws ERR_CANNOT_MINE error", () => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
-        ]);
+        activateMining();
         const block = chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
 
-        const result = client.canMineTokens(wallet_3, block.block_height, 0, minersRec).result;
+        const result = client.canMineTokens(wallet_3, block.block_height, 0);
 
-        result.expectErr().expectUint(ErrCode.ERR_CANNOT_MINE);
+        assertEquals(result, { ok: false, error: ErrCode.ERR_CANNOT_MINE });
       });
 
       it("throws ERR_INSUFFICIENT_BALANCE error", () => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
-        ]);
+        activateMining();
         const block = chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
 
-        const result = client.canMineTokens(wallet_3, block.block_height, wallet_3.balance + 1, minersRec).result;
+        const result = client.canMineTokens(wallet_3, block.block_height, wallet_3.balance + 1);
 
-        result.expectErr().expectUint(ErrCode.ERR_INSUFFICIENT_BALANCE);
+        assertEquals(result, { ok: false, error: ErrCode.ERR_INSUFFICIENT_BALANCE });
       });
     });
 
     describe("can-stack-tokens()", () => {
       it("throws ERR_CANNOT_STACK error if nowStacksHeight < startStacksHeight", () => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
-        ]);
+        activateMining();
 
         const nowStacksHeight = 103;
         const startStacksHeight = 102;
 
-        const result = client.canStackTokens(wallet_1, 100, nowStacksHeight, startStacksHeight, 1).result;
+        const result = client.canStackTokens(wallet_1, 100, nowStacksHeight, startStacksHeight, 1);
 
-        result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+        assertEquals(result, { ok: false, error: ErrCode.ERR_CANNOT_STACK });
       });
 
       it("throws ERR_CANNOT_STACK error if lockPeriod=0 or lockPeriod > max-reward-cycles (32)", () => {
@@ -375,12 +560,12 @@ describe('[CityCoin]', () => {
         const startStacksHeight = 510;
 
         const results = [
-          client.canStackTokens(wallet_1, 100, nowStacksHeight, startStacksHeight, 0).result,
-          client.canStackTokens(wallet_1, 100, nowStacksHeight, startStacksHeight, 33).result,
+          client.canStackTokens(wallet_1, 100, nowStacksHeight, startStacksHeight, 0),
+          client.canStackTokens(wallet_1, 100, nowStacksHeight, startStacksHeight, 33),
         ]
 
         results.forEach((result) => {
-          result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+          assertEquals(result, { ok: false, error: ErrCode.ERR_CANNOT_STACK });
         })
       });
 
@@ -389,24 +574,22 @@ describe('[CityCoin]', () => {
         const startStacksHeight = 510;
         const amountToken = 0;
 
-        const result = client.canStackTokens(wallet_1, amountToken, nowStacksHeight, startStacksHeight, 1).result;
+        const result = client.canStackTokens(wallet_1, amountToken, nowStacksHeight, startStacksHeight, 1);
 
-        result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+        assertEquals(result, { ok: false, error: ErrCode.ERR_CANNOT_STACK });
       });
 
       it("throws ERR_INSUFFICIENT_BALANCE if stacker doesn't have enough tokens", () => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
-        ]);
+        activateMining();
 
         const nowStacksHeight = 102;
         const startStacksHeight = 103;
         const amountToken = 100000;
 
-        const result = client.canStackTokens(wallet_1, amountToken, nowStacksHeight, startStacksHeight, 1).result;
+        const result = client.canStackTokens(wallet_1, amountToken, nowStacksHeight, startStacksHeight, 1);
 
-        result.expectErr().expectUint(ErrCode.ERR_INSUFFICIENT_BALANCE);
+        assertEquals(result, { ok: false, error: ErrCode.ERR_INSUFFICIENT_BALANCE });
       });
     });
 
@@ -418,16 +601,14 @@ describe('[CityCoin]', () => {
         const targetRewardCycle = 0
         const currentBlockHeight = 0;
 
-        const result = client.getEntitledStackingReward(stacker, targetRewardCycle, currentBlockHeight).result;
+        const result = client.getEntitledStackingReward(stacker, targetRewardCycle, currentBlockHeight);
 
-        result.expectUint(0);
+        assertEquals(result, 0n);
       });
 
-      it("returns 1000 if miners committed only 1000ustx and there is only one stacker", () => {
+      it("returns 700 if miners committed only 1000ustx and there is only one stacker", () => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
-        ]);
+        activateMining();
         chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
 
         const stacker = wallet_1;
@@ -452,33 +633,333 @@ describe('[CityCoin]', () => {
         // move chain forward to jump into 2nd stacking cycle
         const block = chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
 
-        const result = client.getEntitledStackingReward(stacker, targetRewardCycle, block.block_height).result;
+        const result = client.getEntitledStackingReward(stacker, targetRewardCycle, block.block_height);
+
+        // 30% of the commitment goes to the city wallet
+        assertEquals(result, 700n);
+      });
+
+      it("splits the Stackers' share proportionally after the city's share is taken out", () => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        const stacker_1 = wallet_1;
+        const stacker_2 = wallet_2;
+        const miner = wallet_3;
+        const minerCommitment = 10000;
+        const targetRewardCycle = 1;
+
+        chain.mineBlock([
+          client.ftMint(1000, stacker_1),
+          client.ftMint(3000, stacker_2),
+          client.stackTokens(1000, 105, 1, stacker_1),
+          client.stackTokens(3000, 105, 1, stacker_2),
+        ]);
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        chain.mineBlock([
+          client.mineTokens(minerCommitment, miner)
+        ]);
+        const block = chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        const stackersShare = minerCommitment * (100 - CITY_WALLET_SPLIT_PCT) / 100;
+
+        assertEquals(client.getTokensPerCycle(targetRewardCycle).totalUstx, BigInt(stackersShare));
+        assertEquals(client.getCityUstxInCycle(targetRewardCycle), BigInt(minerCommitment - stackersShare));
+        assertEquals(client.getEntitledStackingReward(stacker_1, targetRewardCycle, block.block_height), BigInt(stackersShare / 4));
+        assertEquals(client.getEntitledStackingReward(stacker_2, targetRewardCycle, block.block_height), BigInt(stackersShare * 3 / 4));
+      });
+    });
+
+    describe("get-cycle-stats()", () => {
+      it("returns empty statistics when nobody Stacked", () => {
+        setupCleanEnv();
+
+        assertEquals(client.getCycleStats(1), {
+          stackers: 0n,
+          tokensLocked: 0n,
+          ustxCommitted: 0n,
+          ustxClaimed: 0n,
+          avgUstxPerToken: 0n
+        });
+      });
+
+      it("counts each Stacker once and tracks committed and claimed uSTX", () => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        const stacker_1 = wallet_1;
+        const stacker_2 = wallet_2;
+        const miner = wallet_3;
+
+        // stacker_1 Stacks twice in reward cycle 1, and once more for reward cycles 1 and 2
+        chain.mineBlock([
+          client.ftMint(3000000, stacker_1),
+          client.ftMint(1000000, stacker_2),
+          client.stackTokens(1000000, 105, 1, stacker_1),
+          client.stackTokens(1000000, 105, 1, stacker_1),
+          client.stackTokens(1000000, 105, 2, stacker_1),
+          client.stackTokens(1000000, 105, 1, stacker_2),
+        ]);
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        chain.mineBlock([
+          client.mineTokens(10000, miner)
+        ]);
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        assertEquals(client.getCycleStats(1), {
+          stackers: 2n,
+          tokensLocked: 4000000n,
+          ustxCommitted: 7000n,
+          ustxClaimed: 0n,
+          avgUstxPerToken: 1750n
+        });
+        assertEquals(client.getCycleStats(2).stackers, 1n);
+
+        chain.mineBlock([
+          client.claimStackingReward(1, stacker_2)
+        ]);
+
+        assertEquals(client.getCycleStats(1).ustxClaimed, 1750n);
+      });
+    });
+
+    describe("get-miner-stats()", () => {
+      let minedHeight: number;
+
+      // wallet_1 commits to 3 blocks and cancels the last one, wins the 2nd one alone and claims it,
+      // wallet_2 only mines the 1st block
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        minedHeight = chain.mineBlock([
+          client.mineMany([100, 200, 300], wallet_1),
+          client.mineTokens(1000, wallet_2)
+        ]).height;
+        chain.mineBlock([
+          client.cancelMining(minedHeight + 2, wallet_1)
+        ]).receipts[0].result.expectOk();
+
+        chain.mineEmptyBlockUntil(minedHeight + 1 + TOKEN_REWARD_MATURITY + 1);
+        chain.mineBlock([
+          client.claimTokenReward(minedHeight + 1, wallet_1)
+        ]).receipts[0].result.expectOk();
+      });
+
+      it("returns empty statistics for someone who never mined", () => {
+        assertEquals(client.getMinerStats(wallet_3), {
+          blocksMined: 0n,
+          ustxSpent: 0n,
+          blocksWon: 0n,
+          tokensEarned: 0n,
+          avgUstxPerBlock: 0n
+        });
+      });
+
+      it("tracks blocks mined net of cancellations, uSTX spent and rewards claimed", () => {
+        assertEquals(client.getMinerStats(wallet_1), {
+          blocksMined: 2n,
+          ustxSpent: 300n,
+          blocksWon: 1n,
+          tokensEarned: client.getCoinbaseAmount(minedHeight + 1),
+          avgUstxPerBlock: 150n
+        });
+        assertEquals(client.getMinerStats(wallet_2), {
+          blocksMined: 1n,
+          ustxSpent: 1000n,
+          blocksWon: 0n,
+          tokensEarned: 0n,
+          avgUstxPerBlock: 1000n
+        });
+      });
+
+      it("ranks miners with getMinerLeaderboard()", () => {
+        const miners = [wallet_3, wallet_2, wallet_1];
+
+        // ties keep their order
+        assertEquals(client.getMinerLeaderboard(miners).map((ranking) => ranking.miner),
+          [wallet_1.address, wallet_3.address, wallet_2.address]);
+        assertEquals(client.getMinerLeaderboard(miners, "ustxSpent").map((ranking) => ranking.miner),
+          [wallet_2.address, wallet_1.address, wallet_3.address]);
+        assertEquals(client.getMinerLeaderboard(miners, "blocksMined")[0], {
+          miner: wallet_1.address,
+          stats: client.getMinerStats(wallet_1)
+        });
+      });
+    });
+
+    describe("get-block-summary()", () => {
+      let minedHeight: number;
+
+      // wallet_1 and wallet_2 both mine the 1st block, wallet_1 mines the 2nd one alone, nobody mines the 3rd one
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        minedHeight = chain.mineBlock([
+          client.mineMany([100, 200], wallet_1),
+          client.mineTokens(300, wallet_2)
+        ]).height;
+      });
+
+      it("doesn't report a winner before the block has matured", () => {
+        assertEquals(client.getBlockSummary(minedHeight), {
+          stacksBlockHeight: minedHeight,
+          miners: 2n,
+          commitTotal: 400n,
+          winner: null,
+          claimed: false,
+          coinbase: client.getCoinbaseAmount(minedHeight),
+          void: false
+        });
+      });
+
+      it("reports the winner once the block has matured, and whether they claimed", () => {
+        chain.mineEmptyBlockUntil(minedHeight + 1 + TOKEN_REWARD_MATURITY + 1);
+
+        const randomSample = client.getRandomUintAtBlock(minedHeight + TOKEN_REWARD_MATURITY)!;
+        const winner = client.getBlockWinner(randomSample, client.getMinersAtBlock(minedHeight))!;
+        assertEquals(client.getBlockSummary(minedHeight).winner, winner.miner);
+        assertEquals(client.getBlockSummary(minedHeight + 1).winner, wallet_1.address);
+
+        chain.mineBlock([
+          client.claimTokenReward(minedHeight + 1, wallet_1)
+        ]).receipts[0].result.expectOk();
+
+        assertEquals(client.getBlockSummary(minedHeight + 1), {
+          stacksBlockHeight: minedHeight + 1,
+          miners: 1n,
+          commitTotal: 200n,
+          winner: wallet_1.address,
+          claimed: true,
+          coinbase: client.getCoinbaseAmount(minedHeight + 1),
+          void: false
+        });
+      });
+
+      it("reports blocks nobody mined as empty", () => {
+        chain.mineEmptyBlockUntil(minedHeight + 2 + TOKEN_REWARD_MATURITY + 1);
+
+        assertEquals(client.getBlockSummary(minedHeight + 2), {
+          stacksBlockHeight: minedHeight + 2,
+          miners: 0n,
+          commitTotal: 0n,
+          winner: null,
+          claimed: false,
+          coinbase: client.getCoinbaseAmount(minedHeight + 2),
+          void: false
+        });
+      });
+
+      it("reports the blocks after a shutdown as void, with no winner", () => {
+        // wallet_2 commits to the block before the shutdown and the two blocks after it
+        chain.mineBlock([client.mineMany([100, 100, 100], wallet_2)]);
+        const shutdownHeight = chain.mineBlock([client.shutdownContract(deployer)]).height;
+        chain.mineEmptyBlockUntil(shutdownHeight + 1 + TOKEN_REWARD_MATURITY + 1);
+
+        assertEquals(client.getBlockSummary(shutdownHeight).winner, wallet_2.address);
+        assertEquals(client.getBlockSummary(shutdownHeight).void, false);
+        assertEquals(client.getBlockSummary(shutdownHeight + 1), {
+          stacksBlockHeight: shutdownHeight + 1,
+          miners: 1n,
+          commitTotal: 100n,
+          winner: null,
+          claimed: false,
+          coinbase: client.getCoinbaseAmount(shutdownHeight + 1),
+          void: true
+        });
+      });
+
+      it("summarizes a range of blocks with getBlockSummaries()", () => {
+        const summaries = client.getBlockSummaries(minedHeight - 1, minedHeight + 2);
+
+        assertEquals(summaries.map((summary) => summary.stacksBlockHeight),
+          [minedHeight - 1, minedHeight, minedHeight + 1, minedHeight + 2]);
+        assertEquals(summaries.map((summary) => summary.commitTotal), [0n, 400n, 200n, 0n]);
+        assertEquals(summaries[1], client.getBlockSummary(minedHeight));
+        assertEquals(client.getBlockSummaries(minedHeight, minedHeight - 1), []);
+      });
+    });
+
+    describe("get-coinbase-amount()", () => {
+      it("returns 0 before mining is activated", () => {
+        setupCleanEnv();
+
+        assertEquals(client.getCoinbaseAmount(0), 0n);
+        assertEquals(client.getCoinbaseEpoch(0), null);
+        assertEquals(client.getCoinbaseEpochInfo(), { ok: false, error: ErrCode.ERR_STACKING_NOT_AVAILABLE });
+      });
+
+      it("follows the issuance schedule relative to the activation block", () => {
+        setupCleanEnv();
+        activateMining();
+        const activationHeight = Number(client.getFirstBlockHeightInRewardCycle(0));
+        const lastHalvingHeight = activationHeight + 5 * COINBASE_EPOCH_LENGTH;
+
+        // sample thousands of blocks across all epochs...
+        const heights: number[] = [];
+        for (let height = 0; height < lastHalvingHeight + COINBASE_EPOCH_LENGTH; height += 997) {
+          heights.push(height);
+        }
+        // ...and the blocks around every epoch boundary
+        const boundaries = [activationHeight, activationHeight + COINBASE_BONUS_PERIOD];
+        for (let halving = 1; halving <= 6; halving++) {
+          boundaries.push(activationHeight + halving * COINBASE_EPOCH_LENGTH);
+        }
+        boundaries.forEach((boundary) => heights.push(boundary - 1, boundary, boundary + 1));
+
+        heights.forEach((height) => {
+          assertEquals(client.getCoinbaseAmount(height), expectedCoinbase(height, activationHeight), `height ${height}`);
+
+          const epoch = coinbaseEpoch(height, activationHeight);
+          assertEquals(client.getCoinbaseEpoch(height), epoch === null ? null : BigInt(epoch), `height ${height}`);
+        });
+      });
+
+      it("reports the current epoch and the next halving height", () => {
+        setupCleanEnv();
+        activateMining();
+        const activationHeight = Number(client.getFirstBlockHeightInRewardCycle(0));
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
 
-        result.expectUint(minerCommitment);
+        const result = client.getCoinbaseEpochInfo();
+
+        assertEquals(result, {
+          ok: true,
+          value: {
+            epoch: 0n,
+            coinbaseAmount: 250000000000n,
+            nextHalvingHeight: BigInt(activationHeight + COINBASE_BONUS_PERIOD)
+          }
+        });
       });
     });
 
     describe("get-reward-cycle()", () => {
       it("returns None if stacksBlockHeight is equal 0", () => {
-        const result = client.getRewardCycle(0).result;
+        const result = client.getRewardCycle(0);
 
-        result.expectNone()
+        assertEquals(result, null);
       });
 
       it("returns Some with correct value when stacksBlockHeight > 100", () => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
-        ]);
+        activateMining();
 
         const blockHeights = [101, 105, 499, 500, 501, 1001];
 
         blockHeights.forEach((stacksBlockHeight) => {
           const expectedValue = Math.floor((stacksBlockHeight - FIRST_STACKING_BLOCK) / REWARD_CYCLE_LENGTH);
 
-          const result = client.getRewardCycle(stacksBlockHeight).result;
+          const result = client.getRewardCycle(stacksBlockHeight);
 
-          result.expectSome().expectUint(expectedValue);
+          assertEquals(result, BigInt(expectedValue));
         });
       });
     });
@@ -490,9 +971,9 @@ describe('[CityCoin]', () => {
         rewardCycles.forEach((rewardCycle) => {
           const expectedValue = FIRST_STACKING_BLOCK + (REWARD_CYCLE_LENGTH * rewardCycle);
 
-          const result = client.getFirstBlockHeightInRewardCycle(rewardCycle).result;
+          const result = client.getFirstBlockHeightInRewardCycle(rewardCycle);
 
-          result.expectUint(expectedValue);
+          assertEquals(result, BigInt(expectedValue));
         });
       });
     })
@@ -502,9 +983,7 @@ describe('[CityCoin]', () => {
     describe("stack-tokens()", () => {
       beforeEach(() => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
-        ]);
+        activateMining();
       })
 
       it("throws ERR_STACKING_NOT_AVAILABLE error", () => {
@@ -529,6 +1008,24 @@ describe('[CityCoin]', () => {
         assertEquals(block.receipts[0].events.length, 0);
       });
 
+      it("throws ERR_CANNOT_STACK error when the tokens would stay locked for more than MAX_REWARD_CYCLES reward cycles after the current one", () => {
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+        // a Stacks block height in the reward cycle before the given one
+        const startIn = (rewardCycle: number) => FIRST_STACKING_BLOCK + (rewardCycle - 1) * REWARD_CYCLE_LENGTH + 100;
+
+        const block = chain.mineBlock([
+          client.ftMint(300, wallet_1),
+          client.stackTokens(100, startIn(MAX_REWARD_CYCLES + 1), 1, wallet_1),
+          client.stackTokens(100, startIn(MAX_REWARD_CYCLES), 2, wallet_1),
+          client.stackTokens(100, startIn(MAX_REWARD_CYCLES), 1, wallet_1)
+        ]);
+
+        block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+        block.receipts[2].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+        block.receipts[3].result.expectOk().expectBool(true);
+        assertEquals(client.getStackedInCycle(wallet_1, MAX_REWARD_CYCLES), 100n);
+      });
+
       it("succeeds and causes one ft_transfer_event", () => {
         chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
         const startStacksHeight = 105;
@@ -551,21 +1048,461 @@ describe('[CityCoin]', () => {
           client.getContractAddress(),
           "citycoins"
         );
+        assertEquals(client.parseEvents(block.receipts[1].events), [
+          {
+            event: "stack",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            stacker: wallet_1.address,
+            amountToken: 100n,
+            firstCycle: 1n,
+            lockPeriod: 1n
+          }
+        ]);
 
       });
     });
 
-    describe("mine-tokens()", () => {
+    describe("Stacking positions:", () => {
       beforeEach(() => {
         setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        // lock 600 tokens for reward cycles 1 and 2, and keep 400
         chain.mineBlock([
-          client.registerMiner(wallet_3)
+          client.ftMint(1000, wallet_1),
+          client.stackTokens(600, 105, 2, wallet_1),
         ]);
-        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
       });
 
-      it("throws ERR_CANNOT_MINE error when miner wants to commit 0 ustx", () => {
-        const block = chain.mineBlock([
+      describe("get-stacking-position()", () => {
+        it("returns the locked tokens and how many reward cycles they stay locked after the current one", () => {
+          assertEquals(client.getStackingPosition(wallet_1), { amountToken: 600n, unlockRewardCycle: 3n, remainingCycles: 2n });
+          assertEquals(client.getStackingPosition(wallet_2), null);
+
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH * 2);
+          assertEquals(client.getStackingPosition(wallet_1), { amountToken: 600n, unlockRewardCycle: 3n, remainingCycles: 0n });
+        });
+
+        it("returns null once the tokens unlocked", () => {
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH * 3);
+
+          assertEquals(client.getStackingPosition(wallet_1), null);
+        });
+      });
+
+      describe("extend-stacking()", () => {
+        it("throws ERR_CANNOT_STACK error when the Stacker has nothing locked up", () => {
+          const block = chain.mineBlock([
+            client.extendStacking(1, wallet_2)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+        });
+
+        it("throws ERR_CANNOT_STACK error when the lock period is 0, or the tokens would stay locked for more than 32 reward cycles", () => {
+          const block = chain.mineBlock([
+            client.extendStacking(0, wallet_1),
+            client.extendStacking(31, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+          assertEquals(client.canExtendStacking(wallet_1, block.height, 30), { ok: true, value: true });
+          assertEquals(client.canExtendStacking(wallet_1, 0, 1), { ok: false, error: ErrCode.ERR_STACKING_NOT_AVAILABLE });
+        });
+
+        it("throws ERR_CANNOT_STACK error once the tokens unlocked", () => {
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH * 3);
+
+          const block = chain.mineBlock([
+            client.extendStacking(1, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+        });
+
+        it("succeeds and Stacks all locked tokens in the added reward cycles", () => {
+          const block = chain.mineBlock([
+            client.extendStacking(3, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          assertEquals(client.parseEvents(block.receipts[0].events), [
+            {
+              event: "extend-stacking",
+              version: BigInt(EVENT_SCHEMA_VERSION),
+              stacker: wallet_1.address,
+              amountToken: 600n,
+              firstCycle: 3n,
+              lockPeriod: 3n
+            }
+          ]);
+          assertEquals(block.receipts[0].events.length, 1);
+          [1, 2, 3, 4, 5].forEach((cycle) => assertEquals(client.getStackedInCycle(wallet_1, cycle), 600n));
+          assertEquals(client.getStackedInCycle(wallet_1, 6), 0n);
+          assertEquals(client.getTokensPerCycle(5), { totalUstx: 0n, totalTokens: 600n });
+          assertEquals(client.getStackingPosition(wallet_1), { amountToken: 600n, unlockRewardCycle: 6n, remainingCycles: 5n });
+        });
+      });
+
+      describe("increase-stacking()", () => {
+        it("throws ERR_CANNOT_STACK error when the Stacker has nothing locked up", () => {
+          const block = chain.mineBlock([
+            client.increaseStacking(100, wallet_2)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+          assertEquals(client.canIncreaseStacking(wallet_1, 100, 0), { ok: false, error: ErrCode.ERR_STACKING_NOT_AVAILABLE });
+        });
+
+        it("throws ERR_CANNOT_STACK error when adding 0 tokens, and ERR_INSUFFICIENT_BALANCE when adding more than the Stacker has", () => {
+          const block = chain.mineBlock([
+            client.increaseStacking(0, wallet_1),
+            client.increaseStacking(401, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_INSUFFICIENT_BALANCE);
+          assertEquals(block.receipts[1].events.length, 0);
+        });
+
+        it("throws ERR_CANNOT_STACK error in the last reward cycle the tokens are locked for", () => {
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH * 2);
+
+          const block = chain.mineBlock([
+            client.increaseStacking(100, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+        });
+
+        it("succeeds and Stacks the added tokens in the remaining reward cycles", () => {
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+          const block = chain.mineBlock([
+            client.increaseStacking(400, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          block.receipts[0].events.expectFungibleTokenTransferEvent(
+            400,
+            wallet_1.address,
+            client.getContractAddress(),
+            "citycoins"
+          );
+          assertEquals(client.parseEvents(block.receipts[0].events), [
+            {
+              event: "increase-stacking",
+              version: BigInt(EVENT_SCHEMA_VERSION),
+              stacker: wallet_1.address,
+              amountToken: 400n,
+              firstCycle: 2n,
+              lockPeriod: 1n
+            }
+          ]);
+          assertEquals(client.getStackedInCycle(wallet_1, 1), 600n);
+          assertEquals(client.getStackedInCycle(wallet_1, 2), 1000n);
+          assertEquals(client.getStackedInCycle(wallet_1, 3), 0n);
+          assertEquals(client.getStackerUnlockInfo(wallet_1), { amountToken: 1000n, unlockRewardCycle: 3n, unlocked: false });
+          assertEquals(client.getStackingPosition(wallet_1), { amountToken: 1000n, unlockRewardCycle: 3n, remainingCycles: 1n });
+        });
+      });
+    });
+
+    describe("Delegated Stacking:", () => {
+      // wallet_3 runs a pool for wallet_1 and wallet_2, whose tokens are Stacked from reward cycle 1
+      const START_HEIGHT = FIRST_STACKING_BLOCK + 100;
+
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        chain.mineBlock([
+          client.ftMint(1000, wallet_1),
+          client.ftMint(1000, wallet_2),
+        ]);
+      });
+
+      describe("delegate-stacking()", () => {
+        it("throws ERR_CANNOT_STACK error when the Stacker delegates to themselves or allows 0 tokens", () => {
+          const block = chain.mineBlock([
+            client.delegateStacking(wallet_1, 500, null, wallet_1),
+            client.delegateStacking(wallet_3, 0, null, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+        });
+
+        it("throws ERR_DELEGATION_EXPIRED error when the delegation expires right away", () => {
+          const block = chain.mineBlock([
+            client.delegateStacking(wallet_3, 500, chain.blockHeight + 1, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_DELEGATION_EXPIRED);
+          assertEquals(client.getDelegation(wallet_1), null);
+        });
+
+        it("succeeds, and replaces the Stacker's previous delegation", () => {
+          const block = chain.mineBlock([
+            client.delegateStacking(wallet_4, 100, null, wallet_1),
+            client.delegateStacking(wallet_3, 500, 5000, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          block.receipts[1].result.expectOk().expectBool(true);
+          assertEquals(client.parseEvents(block.receipts[1].events), [
+            {
+              event: "delegate-stacking",
+              version: BigInt(EVENT_SCHEMA_VERSION),
+              stacker: wallet_1.address,
+              operator: wallet_3.address,
+              amountToken: 500n,
+              untilHeight: 5000n
+            }
+          ]);
+          assertEquals(client.getDelegation(wallet_1), { operator: wallet_3.address, amountToken: 500n, untilStacksHeight: 5000n });
+        });
+      });
+
+      describe("revoke-delegation()", () => {
+        it("throws ERR_NOT_DELEGATED error when the Stacker didn't delegate", () => {
+          const block = chain.mineBlock([
+            client.revokeDelegation(wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_NOT_DELEGATED);
+        });
+
+        it("succeeds and removes the delegation", () => {
+          chain.mineBlock([
+            client.delegateStacking(wallet_3, 500, null, wallet_1)
+          ]);
+
+          const block = chain.mineBlock([
+            client.revokeDelegation(wallet_1)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          assertEquals(client.parseEvents(block.receipts[0].events), [
+            { event: "revoke-delegation", version: BigInt(EVENT_SCHEMA_VERSION), stacker: wallet_1.address, operator: wallet_3.address }
+          ]);
+          assertEquals(client.getDelegation(wallet_1), null);
+        });
+      });
+
+      describe("delegate-stack-tokens()", () => {
+        it("throws ERR_NOT_DELEGATED error when the member didn't delegate to the operator", () => {
+          const block = chain.mineBlock([
+            client.delegateStacking(wallet_4, 500, null, wallet_2),
+            client.delegateStackTokens(wallet_1, 100, START_HEIGHT, 1, wallet_3),
+            client.delegateStackTokens(wallet_2, 100, START_HEIGHT, 1, wallet_3)
+          ]);
+
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_NOT_DELEGATED);
+          block.receipts[2].result.expectErr().expectUint(ErrCode.ERR_NOT_DELEGATED);
+        });
+
+        it("throws ERR_NOT_DELEGATED error once the member revoked the delegation", () => {
+          chain.mineBlock([
+            client.delegateStacking(wallet_3, 500, null, wallet_1),
+            client.delegateStackTokens(wallet_1, 100, START_HEIGHT, 1, wallet_3)
+          ]);
+
+          const block = chain.mineBlock([
+            client.revokeDelegation(wallet_1),
+            client.delegateStackTokens(wallet_1, 100, START_HEIGHT, 1, wallet_3)
+          ]);
+
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_NOT_DELEGATED);
+          // the tokens Stacked before stay locked up
+          assertEquals(client.getStackingPosition(wallet_1), { amountToken: 100n, unlockRewardCycle: 2n, remainingCycles: 1n });
+        });
+
+        it("throws ERR_DELEGATION_EXPIRED error once the delegation expired", () => {
+          const untilHeight = chain.blockHeight + 10;
+          chain.mineBlock([
+            client.delegateStacking(wallet_3, 500, untilHeight, wallet_1)
+          ]);
+          chain.mineEmptyBlockUntil(untilHeight + 1);
+
+          const block = chain.mineBlock([
+            client.delegateStackTokens(wallet_1, 100, untilHeight + 10, 1, wallet_3)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_DELEGATION_EXPIRED);
+        });
+
+        it("throws ERR_DELEGATION_EXPIRED error when the delegation expires before the tokens unlock", () => {
+          // Stacking in reward cycle 1 unlocks the tokens at the start of reward cycle 2
+          const unlockHeight = Number(client.getFirstBlockHeightInRewardCycle(2));
+          chain.mineBlock([
+            client.delegateStacking(wallet_3, 500, unlockHeight - 1, wallet_1),
+            client.delegateStacking(wallet_3, 500, unlockHeight, wallet_2)
+          ]);
+
+          const block = chain.mineBlock([
+            client.delegateStackTokens(wallet_1, 100, START_HEIGHT, 1, wallet_3),
+            client.delegateStackTokens(wallet_2, 100, START_HEIGHT, 1, wallet_3)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_DELEGATION_EXPIRED);
+          block.receipts[1].result.expectOk().expectBool(true);
+        });
+
+        it("throws ERR_CANNOT_STACK error when another operator Stacks the member's tokens in the same reward cycles", () => {
+          chain.mineBlock([
+            client.delegateStacking(wallet_3, 500, null, wallet_1),
+            client.delegateStackTokens(wallet_1, 100, START_HEIGHT, 2, wallet_3)
+          ]);
+
+          const block = chain.mineBlock([
+            client.delegateStacking(wallet_4, 500, null, wallet_1),
+            client.delegateStackTokens(wallet_1, 100, START_HEIGHT, 1, wallet_4),
+            client.delegateStackTokens(wallet_1, 100, START_HEIGHT + REWARD_CYCLE_LENGTH * 2, 1, wallet_4)
+          ]);
+
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+          block.receipts[2].result.expectOk().expectBool(true);
+          assertEquals(client.getDelegatedInCycle(wallet_3, wallet_1, 2), 100n);
+          assertEquals(client.getDelegatedInCycle(wallet_4, wallet_1, 3), 100n);
+        });
+
+        it("throws ERR_CANNOT_STACK error when the operator locks up more than the member allowed, counting tokens still locked up", () => {
+          chain.mineBlock([
+            client.delegateStacking(wallet_3, 500, null, wallet_1),
+            client.stackTokens(200, START_HEIGHT, 1, wallet_1)
+          ]);
+
+          const block = chain.mineBlock([
+            client.delegateStackTokens(wallet_1, 301, START_HEIGHT, 1, wallet_3),
+            client.delegateStackTokens(wallet_1, 300, START_HEIGHT, 1, wallet_3)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+          block.receipts[1].result.expectOk().expectBool(true);
+          assertEquals(client.canDelegateStackTokens(wallet_3, wallet_1, 1, block.height, START_HEIGHT, 1), { ok: false, error: ErrCode.ERR_CANNOT_STACK });
+        });
+
+        it("throws the same errors as stack-tokens for the member", () => {
+          chain.mineBlock([
+            client.delegateStacking(wallet_3, 5000, null, wallet_1)
+          ]);
+
+          const block = chain.mineBlock([
+            client.delegateStackTokens(wallet_1, 100, START_HEIGHT, 0, wallet_3),
+            client.delegateStackTokens(wallet_1, 0, START_HEIGHT, 1, wallet_3),
+            client.delegateStackTokens(wallet_1, 1001, START_HEIGHT, 1, wallet_3)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_CANNOT_STACK);
+          block.receipts[2].result.expectErr().expectUint(ErrCode.ERR_INSUFFICIENT_BALANCE);
+        });
+
+        it("succeeds and Stacks the members' tokens in the operator's name", () => {
+          chain.mineBlock([
+            client.delegateStacking(wallet_3, 600, null, wallet_1),
+            client.delegateStacking(wallet_3, 400, null, wallet_2)
+          ]);
+
+          const block = chain.mineBlock([
+            client.delegateStackTokens(wallet_1, 600, START_HEIGHT, 2, wallet_3),
+            client.delegateStackTokens(wallet_2, 400, START_HEIGHT, 2, wallet_3)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          block.receipts[0].events.expectFungibleTokenTransferEvent(
+            600,
+            wallet_1.address,
+            client.getContractAddress(),
+            "citycoins"
+          );
+          assertEquals(client.parseEvents(block.receipts[0].events), [
+            {
+              event: "delegate-stack-tokens",
+              version: BigInt(EVENT_SCHEMA_VERSION),
+              operator: wallet_3.address,
+              stacker: wallet_1.address,
+              amountToken: 600n,
+              firstCycle: 1n,
+              lockPeriod: 2n
+            }
+          ]);
+          block.receipts[1].result.expectOk().expectBool(true);
+          [1, 2].forEach((cycle) => {
+            assertEquals(client.getStackedInCycle(wallet_3, cycle), 1000n);
+            assertEquals(client.getStackedInCycle(wallet_1, cycle), 0n);
+            assertEquals(client.getDelegatedInCycle(wallet_3, wallet_1, cycle), 600n);
+            assertEquals(client.getDelegatedInCycle(wallet_3, wallet_2, cycle), 400n);
+            assertEquals(client.getCycleStats(cycle).stackers, 1n);
+          });
+          assertEquals(client.getDelegatedInCycle(wallet_3, wallet_1, 3), 0n);
+          assertEquals(client.getStackerUnlockInfo(wallet_1), { amountToken: 600n, unlockRewardCycle: 3n, unlocked: false });
+        });
+
+        it("pays the pool's reward to the operator, and the members get their tokens back once they unlock", () => {
+          chain.mineBlock([
+            client.delegateStacking(wallet_3, 600, null, wallet_1),
+            client.delegateStacking(wallet_3, 400, null, wallet_2)
+          ]);
+          chain.mineBlock([
+            client.delegateStackTokens(wallet_1, 600, START_HEIGHT, 2, wallet_3),
+            client.delegateStackTokens(wallet_2, 400, START_HEIGHT, 2, wallet_3)
+          ]);
+
+          // 700 of the 1000 uSTX committed in reward cycle 1 go to Stackers
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+          chain.mineBlock([
+            client.mineTokens(1000, wallet_4)
+          ]);
+          assertEquals(client.getPoolMemberReward(wallet_3, wallet_1, 1), 0n);
+
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+          const block = chain.mineBlock([
+            client.claimStackingReward(1, wallet_1),
+            client.claimStackingReward(1, wallet_3)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+          block.receipts[1].result.expectOk().expectBool(true);
+          block.receipts[1].events.expectSTXTransferEvent(
+            700,
+            client.getContractAddress(),
+            wallet_3.address
+          );
+          assertEquals(client.getPoolMemberReward(wallet_3, wallet_1, 1), 420n);
+          assertEquals(client.getPoolMemberReward(wallet_3, wallet_2, 1), 280n);
+
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+          const unlockBlock = chain.mineBlock([
+            client.claimUnlockedTokens(wallet_1),
+            client.claimUnlockedTokens(wallet_3)
+          ]);
+
+          unlockBlock.receipts[0].result.expectOk().expectBool(true);
+          unlockBlock.receipts[0].events.expectFungibleTokenTransferEvent(
+            600,
+            client.getContractAddress(),
+            wallet_1.address,
+            "citycoins"
+          );
+          unlockBlock.receipts[1].result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+        });
+      });
+    });
+
+    describe("mine-tokens()", () => {
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+      });
+
+      it("throws ERR_CANNOT_MINE error when miner wants to commit 0 ustx", () => {
+        const block = chain.mineBlock([
           client.mineTokens(0, wallet_1)
         ]);
 
@@ -600,6 +1537,37 @@ describe('[CityCoin]', () => {
         assertEquals(receipt_err.events.length, 0)
       })
 
+      it("succeeds with more than 32 miners in the same block, and only the winner can claim", () => {
+        const miners = fundedAccounts(40, 1000);
+        const block = chain.mineBlock(miners.map((miner, i) => client.mineTokens(i + 1, miner)));
+
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        const summary = client.getBlockSummary(block.height);
+        assertEquals(summary.miners, 40n);
+        assertEquals(summary.commitTotal, BigInt(40 * 41 / 2));
+        assertEquals(client.getMinerAtBlock(miners[39], block.height), {
+          index: 39n,
+          miner: miners[39].address,
+          amountUstx: 40n,
+          low: BigInt(39 * 40 / 2),
+          high: BigInt(40 * 41 / 2)
+        });
+
+        chain.mineEmptyBlockUntil(block.height + TOKEN_REWARD_MATURITY + 1);
+        const randomSample = client.getRandomUintAtBlock(block.height + TOKEN_REWARD_MATURITY)!;
+        const winner = miners.find((miner) => miner.address === client.getBlockSummary(block.height).winner)!;
+        const loser = miners.find((miner) => miner !== winner)!;
+        assertEquals(client.getBlockWinner(randomSample, client.getMinersAtBlock(block.height))!.miner, winner.address);
+
+        const claimBlock = chain.mineBlock([
+          client.claimTokenReward(block.height, loser),
+          client.claimTokenReward(block.height, winner)
+        ]);
+
+        claimBlock.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        claimBlock.receipts[1].result.expectOk().expectBool(true);
+      });
+
       it("succeeds and causes one stx_transfer_event", () => {
         const amount = 20000;
         const block = chain.mineBlock([
@@ -610,7 +1578,7 @@ describe('[CityCoin]', () => {
         block.receipts[0].result.expectOk().expectBool(true);
 
         // check number of events
-        assertEquals(block.receipts[0].events.length, 1)
+        assertEquals(block.receipts[0].events.length, 2)
 
         // check event details
         block.receipts[0].events.expectSTXTransferEvent(
@@ -618,153 +1586,1787 @@ describe('[CityCoin]', () => {
           wallet_1.address,
           client.getContractAddress()
         );
+        assertEquals(client.parseEvents(block.receipts[0].events), [
+          {
+            event: "mine",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            miner: wallet_1.address,
+            height: BigInt(block.height),
+            amountUstx: BigInt(amount),
+            cycle: 0n
+          }
+        ]);
       });
     });
 
-    describe("claim-stacking-reward()", () => {
+    describe("mine-many()", () => {
       beforeEach(() => {
         setupCleanEnv();
-        chain.mineBlock([
-          client.registerMiner(wallet_3)
-        ]);
+        activateMining();
         chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
       });
 
-      it("throws ERR_NOTHING_TO_REDEEM error when stacker didn't stack at all", () => {
+      it("throws ERR_CANNOT_MINE error when miner passes an empty list", () => {
         const block = chain.mineBlock([
-          client.claimStackingReward(0, wallet_1)
+          client.mineMany([], wallet_1)
         ]);
 
         const receipt = block.receipts[0];
 
-        receipt.result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+        receipt.result.expectErr().expectUint(ErrCode.ERR_CANNOT_MINE);
         assertEquals(receipt.events.length, 0);
       });
 
-      it("throws ERR_NOTHING_TO_REDEEM error, when stacker want to redeem same reward second time", () => {
-        const miner = wallet_1;
-        const stacker = wallet_2;
-
-        // add tokens and stack them at the next cycle
-        chain.mineBlock([
-          client.ftMint(5000, stacker),
-          client.stackTokens(5000, 5, 1, stacker),
+      it("throws ERR_CANNOT_MINE error when one of the amounts is 0 and commits nothing", () => {
+        const block = chain.mineBlock([
+          client.mineMany([10, 0, 10], wallet_1)
         ]);
 
-        // advance chain forward to jump into 1st stacking cycle
-        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+        const receipt = block.receipts[0];
 
-        // mine some tokens
-        chain.mineBlock([
-          client.mineTokens(50000, miner),
+        receipt.result.expectErr().expectUint(ErrCode.ERR_CANNOT_MINE);
+        assertEquals(receipt.events.length, 0);
+        assertEquals(client.getMinersAtBlock(block.height), []);
+        assertEquals(client.getPendingCommitments(wallet_1), []);
+      });
+
+      it("throws ERR_INSUFFICIENT_BALANCE error when miner commits more than they have in total", () => {
+        const amount = Math.floor(wallet_1.balance / 2) + 1;
+        const block = chain.mineBlock([
+          client.mineMany([amount, amount], wallet_1)
         ]);
 
-        // advance chain forward to jump into 2nd stacking cycle
-        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+        const receipt = block.receipts[0];
 
-        // claim first time
+        receipt.result.expectErr().expectUint(ErrCode.ERR_INSUFFICIENT_BALANCE);
+        assertEquals(receipt.events.length, 0);
+      });
+
+      it("throws ERR_ALREADY_MINED error when miner already committed to one of the blocks", () => {
         chain.mineBlock([
-          client.claimStackingReward(1, stacker),
+          client.mineMany([10, 10, 10], wallet_1)
         ]);
 
-        // try to claim second time
         const block = chain.mineBlock([
-          client.claimStackingReward(1, stacker),
+          client.mineMany([10, 10, 10], wallet_1)
         ]);
 
         const receipt = block.receipts[0];
 
-        receipt.result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+        receipt.result.expectErr().expectUint(ErrCode.ERR_ALREADY_MINED);
         assertEquals(receipt.events.length, 0);
       });
 
+      it("throws ERR_ALREADY_MINED error when miner already mined the current block with mine-tokens", () => {
+        const block = chain.mineBlock([
+          client.mineTokens(10, wallet_1),
+          client.mineMany([10, 10], wallet_1)
+        ]);
 
-      it("succeeds and causes one stx_transfer_event event", () => {
-        const miner_1 = wallet_1;
-        const miner_2 = wallet_2
-        const stacker = wallet_3;
-        const minerCommitment = 2000;
+        block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_ALREADY_MINED);
+      });
 
-        // add tokens and stack them at the next cycle
-        chain.mineBlock([
-          client.ftMint(5000, stacker),
-          client.stackTokens(5000, 105, 1, stacker),
+      it("succeeds, causes one stx_transfer_event with the total, and registers miner in each block", () => {
+        const amounts = [100, 200, 300];
+        const block = chain.mineBlock([
+          client.mineMany(amounts, wallet_1),
         ]);
+        const minedHeight = block.height;
 
-        // advance chain forward to jump into 1st stacking cycle
-        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+        block.receipts[0].result.expectOk().expectBool(true);
 
-        // mine some tokens
+        assertEquals(block.receipts[0].events.length, 4);
+        block.receipts[0].events.expectSTXTransferEvent(
+          600,
+          wallet_1.address,
+          client.getContractAddress()
+        );
+        assertEquals(client.parseEvents(block.receipts[0].events), amounts.map((amount, idx) => ({
+          event: "mine",
+          version: BigInt(EVENT_SCHEMA_VERSION),
+          miner: wallet_1.address,
+          height: BigInt(minedHeight + idx),
+          amountUstx: BigInt(amount),
+          cycle: 0n
+        })));
+
+        amounts.forEach((amount, idx) => {
+          assertEquals(client.getMinersAtBlock(minedHeight + idx), [
+            { miner: wallet_1.address, amountUstx: BigInt(amount) }
+          ]);
+          assertEquals(client.getMinerCommitment(wallet_1, minedHeight + idx), BigInt(amount));
+        });
+        assertEquals(client.getMinerCommitment(wallet_1, minedHeight + amounts.length), null);
+      });
+
+      it("lets other miners join the rounds the miner committed to", () => {
         chain.mineBlock([
-          client.mineTokens(minerCommitment, miner_1),
-          client.mineTokens(minerCommitment, miner_2)
+          client.mineMany([100, 200], wallet_1),
         ]);
 
-        // advance chain forward to jump into 2nd stacking cycle
-        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
-
         const block = chain.mineBlock([
-          client.claimStackingReward(1, stacker)
+          client.mineTokens(50, wallet_2),
         ]);
 
-        const receipt = block.receipts[0];
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(client.getMinersAtBlock(block.height), [
+          { miner: wallet_1.address, amountUstx: 200n },
+          { miner: wallet_2.address, amountUstx: 50n }
+        ]);
+      });
+    });
 
-        // check return value
-        receipt.result.expectOk().expectBool(true);
+    describe("get-pending-commitments()", () => {
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+      });
 
-        // check events count
-        assertEquals(receipt.events.length, 1);
+      it("returns empty list when miner didn't commit to any upcoming block", () => {
+        chain.mineBlock([
+          client.mineTokens(10, wallet_1),
+        ]);
 
-        // check event details
-        receipt.events.expectSTXTransferEvent(
-          minerCommitment * 2,
-          client.getContractAddress(),
-          stacker.address
-        )
-      })
+        assertEquals(client.getPendingCommitments(wallet_1), []);
+      });
+
+      it("returns only commitments for blocks that haven't been reached yet", () => {
+        const block = chain.mineBlock([
+          client.mineMany([100, 200, 300, 400], wallet_1),
+        ]);
+        const minedHeight = block.height;
+
+        chain.mineEmptyBlock(1);
+
+        assertEquals(client.getPendingCommitments(wallet_1), [
+          { stacksBlockHeight: BigInt(minedHeight + 2), amountUstx: 300n },
+          { stacksBlockHeight: BigInt(minedHeight + 3), amountUstx: 400n }
+        ]);
+        assertEquals(client.getPendingCommitments(wallet_2), []);
+      });
     });
 
-    describe("register-miner", () => {
-      it("succeeds with (ok true)", () => {
+    describe("cancel-mining()", () => {
+      beforeEach(() => {
         setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+      });
+
+      function minersListAt(stacksBlockHeight: number): MinersList {
+        const miners = new MinersList();
+        client.getMinersAtBlock(stacksBlockHeight).forEach((commit) => {
+          const account = [...accounts.values()].find((account) => account.address == commit.miner)!;
+          miners.push({ miner: account, amountUstx: Number(commit.amountUstx) });
+        });
+        return miners;
+      }
+
+      it("throws ERR_NOTHING_TO_REDEEM error when miner has no pending commitments", () => {
+        chain.mineBlock([
+          client.mineTokens(10, wallet_1),
+        ]);
 
         const block = chain.mineBlock([
-          client.registerMiner(wallet_1)
+          client.cancelMining(0, wallet_1),
         ]);
 
-        const receipt = block.receipts[0];
+        block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+        assertEquals(block.receipts[0].events.length, 0);
+      });
 
-        receipt.result.expectOk().expectBool(true);
-        assertEquals(receipt.events.length, 0);
+      it("does not cancel the commitment for the current block", () => {
+        const block = chain.mineBlock([
+          client.mineMany([100, 200], wallet_1),
+          client.cancelMining(0, wallet_1),
+        ]);
+
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[1].events.expectSTXTransferEvent(
+          200,
+          client.getContractAddress(),
+          wallet_1.address
+        );
+        assertEquals(client.getMinerCommitment(wallet_1, block.height), 100n);
+        assertEquals(client.getMinerCommitment(wallet_1, block.height + 1), null);
       });
 
-      it("fails with ERR_MINER_ALREADY_REGISTERED error when miner wants to register second time", () => {
-        setupCleanEnv();
+      it("succeeds, refunds uSTX for blocks not reached yet and removes them from the reward cycle", () => {
+        const amounts = [100, 200, 300, 400];
+        const mineBlock = chain.mineBlock([
+          client.mineMany(amounts, wallet_1),
+        ]);
+        const rewardCycle = Number(client.getRewardCycle(mineBlock.height));
+        const totalsBefore = client.getTokensPerCycle(rewardCycle);
 
         const block = chain.mineBlock([
-          client.registerMiner(wallet_1),
-          client.registerMiner(wallet_1)
+          client.cancelMining(mineBlock.height + 2, wallet_1),
         ]);
 
-        const receipt = block.receipts[1];
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(block.receipts[0].events.length, 3);
+        block.receipts[0].events.expectSTXTransferEvent(
+          700,
+          client.getContractAddress(),
+          wallet_1.address
+        );
+        assertEquals(client.parseEvents(block.receipts[0].events), [
+          {
+            event: "cancel-mine",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            miner: wallet_1.address,
+            height: BigInt(mineBlock.height + 2),
+            amountUstx: 300n,
+            cycle: BigInt(rewardCycle)
+          },
+          {
+            event: "cancel-mine",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            miner: wallet_1.address,
+            height: BigInt(mineBlock.height + 3),
+            amountUstx: 400n,
+            cycle: BigInt(rewardCycle)
+          }
+        ]);
 
-        receipt.result.expectErr().expectUint(ErrCode.ERR_MINER_ALREADY_REGISTERED);
-        assertEquals(receipt.events.length, 0);
+        assertEquals(client.getPendingCommitments(wallet_1), []);
+        assertEquals(client.getMinerCommitment(wallet_1, mineBlock.height + 1), 200n);
+        assertEquals(client.getMinersAtBlock(mineBlock.height + 2), []);
+        assertEquals(client.getMinersAtBlock(mineBlock.height + 3), []);
+        assertEquals(client.getTokensPerCycle(rewardCycle), {
+          totalUstx: totalsBefore.totalUstx - BigInt(700 * (100 - CITY_WALLET_SPLIT_PCT) / 100),
+          totalTokens: totalsBefore.totalTokens
+        });
+        assertEquals(client.getCityUstxInCycle(rewardCycle), BigInt(300 * CITY_WALLET_SPLIT_PCT / 100));
       });
 
-      it("fails with ERR_MINING_ACTIVATION_THRESHOLD_REACHED error when miner wants to register after reaching activation threshold", () => {
-        setupCleanEnv();
+      it("keeps other miners' commitments and makes refunded blocks impossible to win", () => {
+        const mineBlock = chain.mineBlock([
+          client.mineMany([100, 200, 300], wallet_1),
+          client.mineMany([10, 20, 30], wallet_2),
+        ]);
+        const cancelledHeight = mineBlock.height + 2;
+
+        chain.mineBlock([
+          client.cancelMining(cancelledHeight, wallet_1),
+        ]);
 
+        const miners = minersListAt(cancelledHeight);
+        assertEquals(miners.length, 1);
+        for (let randomSample = 0; randomSample < 30; randomSample++) {
+          assertEquals(client.getBlockWinner(randomSample, miners), {
+            miner: wallet_2.address,
+            amountUstx: 30n
+          });
+        }
+
+        chain.mineEmptyBlockUntil(cancelledHeight + TOKEN_REWARD_MATURITY + 1);
         const block = chain.mineBlock([
-          client.registerMiner(wallet_1),
-          client.registerMiner(wallet_2)
+          client.claimTokenReward(cancelledHeight, wallet_1),
         ]);
 
-        const receipt = block.receipts[1];
+        block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+      });
 
-        receipt.result.expectErr().expectUint(ErrCode.ERR_MINING_ACTIVATION_THRESHOLD_REACHED);
+      it("succeeds at the maximum sizes: MAX_MINERS_PER_BLOCK miners in each of MAX_MINE_MANY_BLOCKS blocks", () => {
+        const miners = fundedAccounts(MAX_MINERS_PER_BLOCK, MAX_MINE_MANY_BLOCKS);
+        const mineBlock = chain.mineBlock(miners.map((miner) =>
+          client.mineMany(new Array(MAX_MINE_MANY_BLOCKS).fill(1), miner)
+        ));
+        mineBlock.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        const cancelledHeight = mineBlock.height + MAX_MINE_MANY_BLOCKS - 1;
+
+        // the block after the one mined in can't be cancelled anymore either
+        const block = chain.mineBlock([
+          client.cancelMining(0, miners[0]),
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectOk().expectBool(true);
+        receipt.events.expectSTXTransferEvent(
+          MAX_MINE_MANY_BLOCKS - 2,
+          client.getContractAddress(),
+          miners[0].address
+        );
+        assertEquals(client.getMinerAtBlock(miners[0], cancelledHeight), null);
+        assertEquals(client.getMinerAtBlock(miners[MAX_MINERS_PER_BLOCK - 1], cancelledHeight), {
+          index: 0n,
+          miner: miners[MAX_MINERS_PER_BLOCK - 1].address,
+          amountUstx: 1n,
+          low: 0n,
+          high: 1n
+        });
+        // the commitments in between keep their position
+        assertEquals(client.getMinerAtBlock(miners[64], cancelledHeight), {
+          index: 64n,
+          miner: miners[64].address,
+          amountUstx: 1n,
+          low: 64n,
+          high: 65n
+        });
+        assertEquals(client.getBlockSummary(cancelledHeight).miners, BigInt(MAX_MINERS_PER_BLOCK - 1));
+        assertEquals(client.getBlockSummary(cancelledHeight).commitTotal, BigInt(MAX_MINERS_PER_BLOCK - 1));
+        assertEquals(client.getMinerCommitment(miners[0], block.height), 1n);
+      });
+
+      it("moves the last miner to the cancelled miner's position, and updates the bounds of the commitments", () => {
+        const mineBlock = chain.mineBlock([
+          client.mineMany([100, 200, 300], wallet_1),
+          client.mineMany([10, 20, 30], wallet_2),
+          client.mineMany([1, 2, 3], wallet_3),
+        ]);
+        const cancelledHeight = mineBlock.height + 2;
+
+        chain.mineBlock([
+          client.cancelMining(cancelledHeight, wallet_1),
+        ]);
+
+        assertEquals(client.getMinerAtBlock(wallet_1, cancelledHeight), null);
+        assertEquals(client.getMinerAtBlock(wallet_3, cancelledHeight), { index: 0n, miner: wallet_3.address, amountUstx: 3n, low: 0n, high: 3n });
+        assertEquals(client.getMinerAtBlock(wallet_2, cancelledHeight), { index: 1n, miner: wallet_2.address, amountUstx: 30n, low: 3n, high: 33n });
+        assertEquals(client.getMinerAtBlockIndex(cancelledHeight, 2), null);
+        assertEquals(client.hasMinedAtBlock(wallet_1, cancelledHeight), false);
+        assertEquals(client.getBlockSummary(cancelledHeight).commitTotal, 33n);
+
+        // wallet_1 can commit to the block again, after the remaining miners
+        chain.mineBlock([
+          client.mineTokens(50, wallet_1),
+        ]).receipts[0].result.expectOk().expectBool(true);
+        assertEquals(client.getMinerAtBlock(wallet_1, cancelledHeight), { index: 2n, miner: wallet_1.address, amountUstx: 50n, low: 33n, high: 83n });
+      });
+
+      it("makes a block nobody else mined impossible to win", () => {
+        const mineBlock = chain.mineBlock([
+          client.mineMany([100, 200, 300], wallet_1),
+        ]);
+        const cancelledHeight = mineBlock.height + 2;
+
+        chain.mineBlock([
+          client.cancelMining(cancelledHeight, wallet_1),
+        ]);
+
+        assertEquals(client.getBlockWinner(0, minersListAt(cancelledHeight)), null);
+
+        chain.mineEmptyBlockUntil(cancelledHeight + TOKEN_REWARD_MATURITY + 1);
+        const block = chain.mineBlock([
+          client.claimTokenReward(cancelledHeight, wallet_1),
+        ]);
+
+        block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_NO_WINNER);
+      });
+    });
+
+    describe("claim-token-rewards()", () => {
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+      });
+
+      it("mints the blocks won and returns the outcome of each claim", () => {
+        const wonHeight = chain.mineBlock([client.mineTokens(100, wallet_1)]).height;
+        const lostHeight = chain.mineBlock([client.mineTokens(100, wallet_2)]).height;
+        const claimedHeight = chain.mineBlock([client.mineTokens(100, wallet_1)]).height;
+        const notMinedHeight = wonHeight - 1;
+
+        chain.mineEmptyBlockUntil(claimedHeight + TOKEN_REWARD_MATURITY + 1);
+        chain.mineBlock([
+          client.claimTokenReward(claimedHeight, wallet_1)
+        ]).receipts[0].result.expectOk().expectBool(true);
+        const immatureHeight = chain.mineBlock([client.mineTokens(100, wallet_1)]).height;
+
+        const block = chain.mineBlock([
+          client.claimTokenRewards([wonHeight, lostHeight, claimedHeight, immatureHeight, notMinedHeight], wallet_1)
+        ]);
+
+        const outcomes = block.receipts[0].result.expectOk().expectList();
+        assertEquals(outcomes.length, 5);
+        outcomes[0].expectOk().expectBool(true);
+        outcomes[1].expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        outcomes[2].expectErr().expectUint(ErrCode.ERR_ALREADY_CLAIMED);
+        outcomes[3].expectErr().expectUint(ErrCode.ERR_IMMATURE_TOKEN_REWARD);
+        outcomes[4].expectErr().expectUint(ErrCode.ERR_NO_WINNER);
+
+        const coinbase = client.getCoinbaseAmount(wonHeight);
+        assertEquals(client.parseEvents(block.receipts[0].events), [
+          {
+            event: "claim-token-reward",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            miner: wallet_1.address,
+            height: BigInt(wonHeight),
+            amountToken: coinbase
+          }
+        ]);
+        assertEquals(client.getBalance(wallet_1), { ok: true, value: coinbase + client.getCoinbaseAmount(claimedHeight) });
+      });
+
+      it("succeeds without minting anything when no block can be claimed", () => {
+        const lostHeight = chain.mineBlock([client.mineTokens(100, wallet_2)]).height;
+        chain.mineEmptyBlockUntil(lostHeight + TOKEN_REWARD_MATURITY + 1);
+
+        const block = chain.mineBlock([
+          client.claimTokenRewards([lostHeight, lostHeight + 1], wallet_1)
+        ]);
+
+        const outcomes = block.receipts[0].result.expectOk().expectList();
+        outcomes[0].expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        outcomes[1].expectErr().expectUint(ErrCode.ERR_NO_WINNER);
+        assertEquals(block.receipts[0].events.length, 0);
+        assertEquals(client.getTotalSupply(), { ok: true, value: 0n });
+      });
+    });
+
+    describe("claim-stacking-reward()", () => {
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+      });
+
+      it("throws ERR_NOTHING_TO_REDEEM error when stacker didn't stack at all", () => {
+        const block = chain.mineBlock([
+          client.claimStackingReward(0, wallet_1)
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+        assertEquals(receipt.events.length, 0);
+      });
+
+      it("throws ERR_NOTHING_TO_REDEEM error, when stacker want to redeem same reward second time", () => {
+        const miner = wallet_1;
+        const stacker = wallet_2;
+
+        // add tokens and stack them at the next cycle
+        chain.mineBlock([
+          client.ftMint(5000, stacker),
+          client.stackTokens(5000, 5, 1, stacker),
+        ]);
+
+        // advance chain forward to jump into 1st stacking cycle
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        // mine some tokens
+        chain.mineBlock([
+          client.mineTokens(50000, miner),
+        ]);
+
+        // advance chain forward to jump into 2nd stacking cycle
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        // claim first time
+        chain.mineBlock([
+          client.claimStackingReward(1, stacker),
+        ]);
+
+        // try to claim second time
+        const block = chain.mineBlock([
+          client.claimStackingReward(1, stacker),
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+        assertEquals(receipt.events.length, 0);
+      });
+
+
+      it("succeeds and causes one stx_transfer_event event", () => {
+        const miner_1 = wallet_1;
+        const miner_2 = wallet_2
+        const stacker = wallet_3;
+        const minerCommitment = 2000;
+
+        // add tokens and stack them at the next cycle
+        chain.mineBlock([
+          client.ftMint(5000, stacker),
+          client.stackTokens(5000, 105, 1, stacker),
+        ]);
+
+        // advance chain forward to jump into 1st stacking cycle
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        // mine some tokens
+        chain.mineBlock([
+          client.mineTokens(minerCommitment, miner_1),
+          client.mineTokens(minerCommitment, miner_2)
+        ]);
+
+        // advance chain forward to jump into 2nd stacking cycle
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        const block = chain.mineBlock([
+          client.claimStackingReward(1, stacker)
+        ]);
+
+        const receipt = block.receipts[0];
+
+        // check return value
+        receipt.result.expectOk().expectBool(true);
+
+        // check events count
+        assertEquals(receipt.events.length, 2);
+
+        // check event details (Stackers share what's left after the city's 30%)
+        receipt.events.expectSTXTransferEvent(
+          minerCommitment * 2 * (100 - CITY_WALLET_SPLIT_PCT) / 100,
+          client.getContractAddress(),
+          stacker.address
+        )
+        assertEquals(client.parseEvents(receipt.events), [
+          {
+            event: "claim-stacking-reward",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            stacker: stacker.address,
+            cycle: 1n,
+            amountUstx: BigInt(minerCommitment * 2 * (100 - CITY_WALLET_SPLIT_PCT) / 100)
+          }
+        ]);
+      })
+    });
+
+    describe("claim-stacking-rewards()", () => {
+      const miner = wallet_1;
+      const stacker = wallet_2;
+
+      // Stack for reward cycles 1 to 3, with miners committing in cycles 1 and 3 only
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        chain.mineBlock([
+          client.ftMint(5000, stacker),
+          client.stackTokens(5000, chain.blockHeight + 2, 3, stacker),
+        ]);
+
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+        chain.mineBlock([
+          client.mineTokens(2000, miner),
+        ]);
+
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH * 2);
+        chain.mineBlock([
+          client.mineTokens(1000, miner),
+        ]);
+      });
+
+      it("throws ERR_NOTHING_TO_REDEEM error when there's nothing to claim in any of the cycles", () => {
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        const block = chain.mineBlock([
+          client.claimStackingRewards([0, 2, 4], stacker),
+          client.claimStackingRewards([1, 2, 3], miner)
+        ]);
+
+        block.receipts.forEach((receipt) => {
+          receipt.result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+          assertEquals(receipt.events.length, 0);
+        });
+      });
+
+      it("succeeds, skips empty cycles and pays out once", () => {
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        const block = chain.mineBlock([
+          client.claimStackingRewards([1, 2, 3, 1], stacker)
+        ]);
+
+        const receipt = block.receipts[0];
+        receipt.result.expectOk().expectBool(true);
+        assertEquals(receipt.events.length, 3);
+        receipt.events.expectSTXTransferEvent(
+          (2000 + 1000) * (100 - CITY_WALLET_SPLIT_PCT) / 100,
+          client.getContractAddress(),
+          stacker.address
+        );
+        assertEquals(client.parseEvents(receipt.events), [
+          {
+            event: "claim-stacking-reward",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            stacker: stacker.address,
+            cycle: 1n,
+            amountUstx: 1400n
+          },
+          {
+            event: "claim-stacking-reward",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            stacker: stacker.address,
+            cycle: 3n,
+            amountUstx: 700n
+          }
+        ]);
+
+        chain.mineBlock([
+          client.claimStackingRewards([1, 2, 3], stacker)
+        ]).receipts[0].result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+      });
+    });
+
+    describe("get-unclaimed-stacking-rewards()", () => {
+      const miner = wallet_1;
+      const stacker = wallet_2;
+
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        chain.mineBlock([
+          client.ftMint(5000, stacker),
+          client.stackTokens(5000, chain.blockHeight + 2, 3, stacker),
+        ]);
+
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+        chain.mineBlock([
+          client.mineTokens(2000, miner),
+        ]);
+
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH * 2);
+        chain.mineBlock([
+          client.mineTokens(1000, miner),
+        ]);
+      });
+
+      it("only counts reward cycles that are over", () => {
+        assertEquals(client.getUnclaimedStackingRewards(stacker, 0, 10), 1400n);
+        assertEquals(client.getUnclaimedStackingRewards(stacker, 3, 3), 0n);
+
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+        assertEquals(client.getUnclaimedStackingRewards(stacker, 0, 10), 2100n);
+        assertEquals(client.getUnclaimedStackingRewards(stacker, 2, 3), 700n);
+        assertEquals(client.getUnclaimedStackingRewards(stacker, 2, 2), 0n);
+        assertEquals(client.getUnclaimedStackingRewards(miner, 0, 10), 0n);
+      });
+
+      it("doesn't count reward cycles that were claimed already", () => {
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+        chain.mineBlock([
+          client.claimStackingReward(1, stacker)
+        ]);
+
+        assertEquals(client.getUnclaimedStackingRewards(stacker, 0, 10), 700n);
+      });
+    });
+
+    describe("claim-unlocked-tokens()", () => {
+      const stacker = wallet_1;
+      const miner = wallet_2;
+      const amountTokens = 5000;
+
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        // lock tokens for reward cycles 1 and 2
+        chain.mineBlock([
+          client.ftMint(amountTokens, stacker),
+          client.stackTokens(amountTokens, 105, 2, stacker),
+        ]);
+      });
+
+      it("tracks the locked tokens and the reward cycle they unlock in", () => {
+        const result = client.getStackerUnlockInfo(stacker);
+
+        assertEquals(result, { amountToken: BigInt(amountTokens), unlockRewardCycle: 3n, unlocked: false });
+      });
+
+      it("throws ERR_NOTHING_TO_REDEEM error when stacker didn't stack at all", () => {
+        const block = chain.mineBlock([
+          client.claimUnlockedTokens(miner)
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+        assertEquals(receipt.events.length, 0);
+      });
+
+      it("throws ERR_TOKENS_NOT_UNLOCKED error before the last reward cycle has passed", () => {
+        // advance chain forward to jump into 2nd (last) stacking cycle
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH * 2);
+
+        const block = chain.mineBlock([
+          client.claimUnlockedTokens(stacker)
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectErr().expectUint(ErrCode.ERR_TOKENS_NOT_UNLOCKED);
+        assertEquals(receipt.events.length, 0);
+      });
+
+      it("succeeds and causes one ft_transfer_event once the last reward cycle has passed", () => {
+        // advance chain forward to jump into 3rd stacking cycle
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH * 3);
+        assertEquals(client.getStackerUnlockInfo(stacker).unlocked, true);
+
+        const block = chain.mineBlock([
+          client.claimUnlockedTokens(stacker)
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectOk().expectBool(true);
+        assertEquals(receipt.events.length, 2);
+        receipt.events.expectFungibleTokenTransferEvent(
+          amountTokens,
+          client.getContractAddress(),
+          stacker.address,
+          "citycoins"
+        );
+        assertEquals(client.parseEvents(receipt.events), [
+          {
+            event: "claim-unlocked-tokens",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            stacker: stacker.address,
+            amountToken: BigInt(amountTokens)
+          }
+        ]);
+        assertEquals(client.getBalance(stacker), { ok: true, value: BigInt(amountTokens) });
+      });
+
+      it("lets stacker claim both uSTX and tokens, but each only once", () => {
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+        chain.mineBlock([
+          client.mineTokens(1000, miner)
+        ]);
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH * 2);
+
+        const block = chain.mineBlock([
+          client.claimUnlockedTokens(stacker),
+          client.claimStackingReward(1, stacker),
+          client.claimUnlockedTokens(stacker),
+          client.claimStackingReward(1, stacker),
+        ]);
+
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[0].events.expectFungibleTokenTransferEvent(
+          amountTokens,
+          client.getContractAddress(),
+          stacker.address,
+          "citycoins"
+        );
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[1].events.expectSTXTransferEvent(
+          700,
+          client.getContractAddress(),
+          stacker.address
+        );
+        block.receipts[2].result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+        block.receipts[3].result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+      });
+    });
+
+    describe("set-city-wallet()", () => {
+      beforeEach(() => {
+        setupCleanEnv();
+      });
+
+      it("defaults the city wallet to the contract deployer", () => {
+        const result = client.getCityWalletInfo();
+
+        assertEquals(result, {
+          cityWallet: deployer.address,
+          splitPct: BigInt(CITY_WALLET_SPLIT_PCT),
+          unclaimedUstx: 0n
+        });
+      });
+
+      it("throws ERR_UNAUTHORIZED error when called by someone other than the custodian", () => {
+        const block = chain.mineBlock([
+          client.setCityWallet(wallet_1, wallet_1)
+        ]);
+
+        block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        assertEquals(client.getCityWalletInfo().cityWallet, deployer.address);
+      });
+
+      it("succeeds and rotates the city wallet", () => {
+        const block = chain.mineBlock([
+          client.setCityWallet(wallet_1, deployer),
+          // the previous custodian can't rotate it anymore
+          client.setCityWallet(deployer, deployer),
+        ]);
+
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        assertEquals(client.getCityWalletInfo().cityWallet, wallet_1.address);
+        assertEquals(client.parseEvents(block.receipts[0].events), [
+          {
+            event: "set-city-wallet",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            cityWallet: wallet_1.address
+          }
+        ]);
+      });
+    });
+
+    describe("set-city-wallet-split-pct()", () => {
+      beforeEach(() => {
+        setupCleanEnv();
+      });
+
+      it("throws ERR_UNAUTHORIZED error when called by someone other than the contract admin", () => {
+        const block = chain.mineBlock([
+          client.setCityWalletSplitPct(50, wallet_1)
+        ]);
+
+        block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        assertEquals(client.getCityWalletInfo().splitPct, BigInt(CITY_WALLET_SPLIT_PCT));
+      });
+
+      it("throws ERR_INVALID_SPLIT_PCT error when the percentage is over 100", () => {
+        const block = chain.mineBlock([
+          client.setCityWalletSplitPct(101, deployer)
+        ]);
+
+        block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_INVALID_SPLIT_PCT);
+        assertEquals(client.getCityWalletInfo().splitPct, BigInt(CITY_WALLET_SPLIT_PCT));
+      });
+
+      it("succeeds and only changes the split of the reward cycles nobody committed to yet", () => {
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+        chain.mineBlock([
+          client.mineTokens(1000, wallet_1),
+        ]);
+
+        const block = chain.mineBlock([
+          client.setCityWalletSplitPct(50, deployer),
+          // same reward cycle as the first commitment: still 30%
+          client.mineTokens(1000, wallet_1),
+        ]);
+
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(client.getCityWalletInfo().splitPct, 50n);
+        assertEquals(client.getCityWalletInfo().unclaimedUstx, 600n);
+        assertEquals(client.parseEvents(block.receipts[0].events), [
+          {
+            event: "set-city-wallet-split-pct",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            splitPct: 50n
+          }
+        ]);
+
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+        chain.mineBlock([
+          client.mineTokens(1000, wallet_1),
+        ]);
+
+        assertEquals(client.getCityWalletInfo().unclaimedUstx, 1100n);
+      });
+    });
+
+    describe("withdraw-city-funds()", () => {
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+        chain.mineBlock([
+          client.setCityWallet(wallet_2, deployer),
+          client.mineTokens(1000, wallet_1),
+        ]);
+      });
+
+      it("holds the city's share of each commitment until it is withdrawn", () => {
+        assertEquals(client.getCityWalletInfo().unclaimedUstx, 300n);
+      });
+
+      it("throws ERR_UNAUTHORIZED error when called by someone other than the custodian", () => {
+        const block = chain.mineBlock([
+          client.withdrawCityFunds(300, wallet_1)
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        assertEquals(receipt.events.length, 0);
+      });
+
+      it("throws ERR_INSUFFICIENT_BALANCE error when withdrawing more than the city's share", () => {
+        const block = chain.mineBlock([
+          client.withdrawCityFunds(301, wallet_2)
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectErr().expectUint(ErrCode.ERR_INSUFFICIENT_BALANCE);
+        assertEquals(receipt.events.length, 0);
+      });
+
+      it("succeeds and causes one stx_transfer_event", () => {
+        const block = chain.mineBlock([
+          client.withdrawCityFunds(300, wallet_2)
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectOk().expectBool(true);
+        assertEquals(receipt.events.length, 2);
+        receipt.events.expectSTXTransferEvent(
+          300,
+          client.getContractAddress(),
+          wallet_2.address
+        );
+        assertEquals(client.parseEvents(receipt.events), [
+          {
+            event: "withdraw-city-funds",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            cityWallet: wallet_2.address,
+            amountUstx: 300n
+          }
+        ]);
+        assertEquals(client.getCityWalletInfo().unclaimedUstx, 0n);
+      });
+
+      it("only releases the city's share of commitments made in advance once their block is reached", () => {
+        // wallet_3 commits to 5 blocks, the first two of which are reached by the time the custodian withdraws
+        chain.mineBlock([
+          client.mineMany([1000, 1000, 1000, 1000, 1000], wallet_3)
+        ]);
+        const block = chain.mineBlock([
+          client.withdrawCityFunds(901, wallet_2),
+          client.withdrawCityFunds(900, wallet_2)
+        ]);
+
+        block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_INSUFFICIENT_BALANCE);
+        block.receipts[1].result.expectOk().expectBool(true);
+
+        // the city's share of the last two blocks is still there to be taken back
+        const cancelBlock = chain.mineBlock([
+          client.cancelMining(0, wallet_3)
+        ]);
+
+        const receipt = cancelBlock.receipts[0];
+
+        receipt.result.expectOk().expectBool(true);
+        receipt.events.expectSTXTransferEvent(
+          2000,
+          client.getContractAddress(),
+          wallet_3.address
+        );
+        assertEquals(client.getCityPendingUstx(), 0n);
+        assertEquals(client.getCityWalletInfo().unclaimedUstx, 300n);
+      });
+    });
+
+    describe("Governance:", () => {
+      // wallet_1, wallet_2 and wallet_3 Stack 600, 300 and 100 tokens in reward cycle 1, and the city holds 300 uSTX
+      const START_HEIGHT = FIRST_STACKING_BLOCK + 100;
+
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        chain.mineBlock([
+          client.ftMint(600, wallet_1),
+          client.ftMint(300, wallet_2),
+          client.ftMint(100, wallet_3),
+          client.mineTokens(1000, wallet_4)
+        ]);
+        chain.mineBlock([
+          client.stackTokens(600, START_HEIGHT, 1, wallet_1),
+          client.stackTokens(300, START_HEIGHT, 1, wallet_2),
+          client.stackTokens(100, START_HEIGHT, 1, wallet_3)
+        ]);
+        chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+      });
+
+      // wallet_1 proposes to send 200 of the city's uSTX to wallet_5
+      function proposeSpending(): number {
+        chain.mineBlock([
+          client.createProposal(ProposalKind.SPEND_CITY_FUNDS, 200, wallet_5, wallet_1)
+        ]).receipts[0].result.expectOk().expectUint(1);
+        return 1;
+      }
+
+      function endVoting(proposalId: number) {
+        chain.mineEmptyBlockUntil(Number(client.getProposal(proposalId)!.endHeight));
+      }
+
+      describe("create-proposal()", () => {
+        it("throws ERR_INVALID_PROPOSAL error when the proposal does nothing", () => {
+          const block = chain.mineBlock([
+            client.createProposal(3 as ProposalKind, 200, wallet_5, wallet_1),
+            client.createProposal(ProposalKind.SPEND_CITY_FUNDS, 0, wallet_5, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_INVALID_PROPOSAL);
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_INVALID_PROPOSAL);
+          assertEquals(client.getProposalsCount(), 0n);
+        });
+
+        it("throws ERR_UNAUTHORIZED error when the proposer has no tokens Stacked in the current reward cycle", () => {
+          const block = chain.mineBlock([
+            client.ftMint(100, wallet_5),
+            client.createProposal(ProposalKind.SPEND_CITY_FUNDS, 200, wallet_5, wallet_5)
+          ]);
+
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        });
+
+        it("succeeds, and opens voting for PROPOSAL_VOTING_PERIOD blocks", () => {
+          const block = chain.mineBlock([
+            client.createProposal(ProposalKind.SPEND_CITY_FUNDS, 200, wallet_5, wallet_1),
+            client.createProposal(ProposalKind.SET_CITY_WALLET, 0, wallet_5, wallet_3)
+          ]);
+
+          block.receipts[0].result.expectOk().expectUint(1);
+          block.receipts[1].result.expectOk().expectUint(2);
+          const endHeight = BigInt(block.height + PROPOSAL_VOTING_PERIOD);
+          assertEquals(client.getProposalsCount(), 2n);
+          assertEquals(client.getProposal(1), {
+            proposer: wallet_1.address,
+            kind: ProposalKind.SPEND_CITY_FUNDS,
+            amountUstx: 200n,
+            recipient: wallet_5.address,
+            rewardCycle: 1n,
+            endHeight,
+            votesFor: 0n,
+            votesAgainst: 0n,
+            executed: false
+          });
+          assertEquals(client.parseEvents(block.receipts[0].events), [
+            {
+              event: "create-proposal",
+              version: BigInt(EVENT_SCHEMA_VERSION),
+              proposalId: 1n,
+              proposer: wallet_1.address,
+              kind: BigInt(ProposalKind.SPEND_CITY_FUNDS),
+              amountUstx: 200n,
+              recipient: wallet_5.address,
+              endHeight
+            }
+          ]);
+        });
+
+        it("ends voting when the reward cycle ends, if that comes first", () => {
+          const nextCycleStart = client.getFirstBlockHeightInRewardCycle(2);
+          chain.mineEmptyBlockUntil(Number(nextCycleStart) - PROPOSAL_VOTING_PERIOD / 2);
+
+          proposeSpending();
+
+          assertEquals(client.getProposal(1)!.endHeight, nextCycleStart);
+        });
+      });
+
+      describe("vote()", () => {
+        it("throws ERR_NO_SUCH_PROPOSAL error when the proposal doesn't exist", () => {
+          const block = chain.mineBlock([
+            client.vote(1, true, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_NO_SUCH_PROPOSAL);
+        });
+
+        it("throws ERR_UNAUTHORIZED error when the voter has no tokens Stacked in the proposal's reward cycle", () => {
+          proposeSpending();
+
+          const block = chain.mineBlock([
+            client.vote(1, true, wallet_5)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        });
+
+        it("throws ERR_ALREADY_VOTED error when the Stacker votes twice", () => {
+          proposeSpending();
+
+          const block = chain.mineBlock([
+            client.vote(1, true, wallet_1),
+            client.vote(1, false, wallet_1),
+            client.vote(1, true, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_ALREADY_VOTED);
+          block.receipts[2].result.expectErr().expectUint(ErrCode.ERR_ALREADY_VOTED);
+          assertEquals(client.getProposal(1)!.votesFor, 600n);
+          assertEquals(client.getProposal(1)!.votesAgainst, 0n);
+        });
+
+        it("throws ERR_VOTING_CLOSED error once voting ended", () => {
+          proposeSpending();
+          endVoting(1);
+
+          const block = chain.mineBlock([
+            client.vote(1, true, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_VOTING_CLOSED);
+        });
+
+        it("succeeds, and weighs each vote by the tokens the voter Stacked", () => {
+          proposeSpending();
+
+          const block = chain.mineBlock([
+            client.vote(1, true, wallet_1),
+            client.vote(1, false, wallet_2),
+            client.vote(1, true, wallet_3)
+          ]);
+
+          block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+          assertEquals(client.getProposal(1)!.votesFor, 700n);
+          assertEquals(client.getProposal(1)!.votesAgainst, 300n);
+          assertEquals(client.getProposalVote(1, wallet_2), { inFavor: false, amountToken: 300n });
+          assertEquals(client.getProposalVote(1, wallet_5), null);
+          assertEquals(client.parseEvents(block.receipts[1].events), [
+            {
+              event: "vote",
+              version: BigInt(EVENT_SCHEMA_VERSION),
+              proposalId: 1n,
+              voter: wallet_2.address,
+              inFavor: false,
+              amountToken: 300n
+            }
+          ]);
+        });
+
+        it("weighs the tokens a pool operator Stacked for a pool member as the member's vote, not the operator's", () => {
+          // wallet_3 Stacks wallet_5's 200 tokens in reward cycle 2, and none of their own
+          chain.mineBlock([
+            client.ftMint(200, wallet_5),
+            client.delegateStacking(wallet_3, 200, null, wallet_5)
+          ]);
+          chain.mineBlock([
+            client.delegateStackTokens(wallet_5, 200, chain.blockHeight + 10, 1, wallet_3)
+          ]).receipts[0].result.expectOk().expectBool(true);
+          chain.mineEmptyBlockUntil(Number(client.getFirstBlockHeightInRewardCycle(2)));
+
+          assertEquals(client.getStackedInCycle(wallet_3, 2), 200n);
+          assertEquals(client.getOperatorDelegatedInCycle(wallet_3, 2), 200n);
+          assertEquals(client.getMemberDelegatedInCycle(wallet_5, 2), 200n);
+          assertEquals(client.getVotingPower(wallet_3, 2), 0n);
+          assertEquals(client.getVotingPower(wallet_5, 2), 200n);
+
+          const block = chain.mineBlock([
+            client.createProposal(ProposalKind.SPEND_CITY_FUNDS, 200, wallet_5, wallet_3),
+            client.createProposal(ProposalKind.SPEND_CITY_FUNDS, 200, wallet_5, wallet_5),
+            client.vote(1, true, wallet_3),
+            client.vote(1, true, wallet_5)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+          block.receipts[1].result.expectOk().expectUint(1);
+          block.receipts[2].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+          block.receipts[3].result.expectOk().expectBool(true);
+          assertEquals(client.getProposal(1)!.votesFor, 200n);
+          assertEquals(client.getProposalVote(1, wallet_5), { inFavor: true, amountToken: 200n });
+        });
+      });
+
+      describe("execute-proposal()", () => {
+        it("throws ERR_NO_SUCH_PROPOSAL error when the proposal doesn't exist", () => {
+          const block = chain.mineBlock([
+            client.executeProposal(1, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_NO_SUCH_PROPOSAL);
+        });
+
+        it("throws ERR_VOTING_NOT_CLOSED error while voting is still open", () => {
+          proposeSpending();
+          chain.mineBlock([client.vote(1, true, wallet_1)]);
+
+          const block = chain.mineBlock([
+            client.executeProposal(1, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_VOTING_NOT_CLOSED);
+        });
+
+        it("throws ERR_QUORUM_NOT_REACHED error when less than PROPOSAL_QUORUM_PCT percent of the Stacked tokens voted", () => {
+          proposeSpending();
+          chain.mineBlock([client.vote(1, true, wallet_3)]);
+          endVoting(1);
+
+          const block = chain.mineBlock([
+            client.executeProposal(1, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_QUORUM_NOT_REACHED);
+          assertEquals(client.getCityWalletInfo().unclaimedUstx, 300n);
+        });
+
+        it("throws ERR_PROPOSAL_REJECTED error when at least as many tokens voted against it", () => {
+          proposeSpending();
+          chain.mineBlock([
+            client.vote(1, false, wallet_1),
+            client.vote(1, true, wallet_2),
+            client.vote(1, true, wallet_3)
+          ]);
+          endVoting(1);
+
+          const block = chain.mineBlock([
+            client.executeProposal(1, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_PROPOSAL_REJECTED);
+        });
+
+        it("throws ERR_INSUFFICIENT_BALANCE error when the city doesn't hold enough uSTX", () => {
+          chain.mineBlock([
+            client.createProposal(ProposalKind.SPEND_CITY_FUNDS, 301, wallet_5, wallet_1),
+            client.vote(1, true, wallet_1)
+          ]);
+          endVoting(1);
+
+          const block = chain.mineBlock([
+            client.executeProposal(1, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_INSUFFICIENT_BALANCE);
+          assertEquals(client.getProposal(1)!.executed, false);
+        });
+
+        it("sends the city's uSTX to the recipient of a passed spending proposal, once", () => {
+          proposeSpending();
+          chain.mineBlock([
+            client.vote(1, true, wallet_2)
+          ]);
+          endVoting(1);
+
+          const block = chain.mineBlock([
+            client.executeProposal(1, wallet_4),
+            client.executeProposal(1, wallet_4)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          block.receipts[0].events.expectSTXTransferEvent(
+            200,
+            client.getContractAddress(),
+            wallet_5.address
+          );
+          assertEquals(client.parseEvents(block.receipts[0].events), [
+            {
+              event: "execute-proposal",
+              version: BigInt(EVENT_SCHEMA_VERSION),
+              proposalId: 1n,
+              kind: BigInt(ProposalKind.SPEND_CITY_FUNDS),
+              amountUstx: 200n,
+              recipient: wallet_5.address
+            }
+          ]);
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_PROPOSAL_ALREADY_EXECUTED);
+          assertEquals(client.getCityWalletInfo().unclaimedUstx, 100n);
+          assertEquals(client.getProposal(1)!.executed, true);
+        });
+
+        it("rotates the city wallet when a custodian rotation passes", () => {
+          chain.mineBlock([
+            client.createProposal(ProposalKind.SET_CITY_WALLET, 0, wallet_5, wallet_3),
+            client.vote(1, true, wallet_1),
+            client.vote(1, false, wallet_3)
+          ]);
+          endVoting(1);
+
+          const block = chain.mineBlock([
+            client.executeProposal(1, wallet_3)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          assertEquals(client.getCityWalletInfo().cityWallet, wallet_5.address);
+        });
+      });
+    });
+
+    describe("Emergency controls:", () => {
+      // wallet_1 Stacks 500 tokens from reward cycle 1, and delegates to wallet_3
+      const START_HEIGHT = FIRST_STACKING_BLOCK + 100;
+
+      beforeEach(() => {
+        setupCleanEnv();
+        activateMining();
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        chain.mineBlock([
+          client.ftMint(1000, wallet_1),
+          client.ftMint(1000, wallet_2),
+          client.delegateStacking(wallet_3, 500, null, wallet_2)
+        ]);
+        chain.mineBlock([
+          client.stackTokens(500, START_HEIGHT, 2, wallet_1)
+        ]);
+      });
+
+      describe("get-contract-status()", () => {
+        it("starts with the deployer as admin, and nothing paused", () => {
+          assertEquals(client.getContractStatus(), {
+            admin: deployer.address,
+            miningPaused: false,
+            stackingPaused: false,
+            shutdownHeight: null
+          });
+        });
+      });
+
+      describe("set-contract-admin()", () => {
+        it("throws ERR_UNAUTHORIZED error when called by someone other than the admin", () => {
+          const block = chain.mineBlock([
+            client.setContractAdmin(wallet_1, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+        });
+
+        it("hands the admin role over", () => {
+          const block = chain.mineBlock([
+            client.setContractAdmin(wallet_5, deployer),
+            client.setMiningPaused(true, deployer),
+            client.setMiningPaused(true, wallet_5)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          assertEquals(client.parseEvents(block.receipts[0].events), [
+            {
+              event: "set-contract-admin",
+              version: BigInt(EVENT_SCHEMA_VERSION),
+              admin: wallet_5.address
+            }
+          ]);
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+          block.receipts[2].result.expectOk().expectBool(true);
+          assertEquals(client.getContractStatus().admin, wallet_5.address);
+        });
+      });
+
+      describe("set-mining-paused()", () => {
+        it("throws ERR_UNAUTHORIZED error when called by someone other than the admin", () => {
+          const block = chain.mineBlock([
+            client.setMiningPaused(true, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+          assertEquals(client.getContractStatus().miningPaused, false);
+        });
+
+        it("refuses new commitments until mining is unpaused, but not Stacking", () => {
+          const block = chain.mineBlock([
+            client.setMiningPaused(true, deployer),
+            client.mineTokens(100, wallet_4),
+            client.mineMany([100, 100], wallet_4),
+            client.stackTokens(100, START_HEIGHT, 1, wallet_2)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          assertEquals(client.parseEvents(block.receipts[0].events), [
+            {
+              event: "set-paused",
+              version: BigInt(EVENT_SCHEMA_VERSION),
+              miningPaused: true,
+              stackingPaused: false
+            }
+          ]);
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_MINING_PAUSED);
+          block.receipts[2].result.expectErr().expectUint(ErrCode.ERR_MINING_PAUSED);
+          block.receipts[3].result.expectOk().expectBool(true);
+
+          const unpausedBlock = chain.mineBlock([
+            client.setMiningPaused(false, deployer),
+            client.mineTokens(100, wallet_4)
+          ]);
+
+          unpausedBlock.receipts[1].result.expectOk().expectBool(true);
+        });
+
+        it("lets miners claim the blocks they won and cancel their commitments", () => {
+          const minedHeight = chain.mineBlock([client.mineMany([100, 100, 100], wallet_4)]).height;
+          chain.mineBlock([client.setMiningPaused(true, deployer)]);
+          chain.mineEmptyBlockUntil(minedHeight + TOKEN_REWARD_MATURITY + 1);
+
+          const block = chain.mineBlock([
+            client.claimTokenReward(minedHeight, wallet_4)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+
+          const futureHeight = chain.blockHeight + 10;
+          chain.mineBlock([
+            client.setMiningPaused(false, deployer),
+            client.mineMany([100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100], wallet_4)
+          ]);
+          chain.mineBlock([client.setMiningPaused(true, deployer)]);
+          const cancelBlock = chain.mineBlock([
+            client.cancelMining(futureHeight, wallet_4)
+          ]);
+
+          cancelBlock.receipts[0].result.expectOk().expectBool(true);
+        });
+      });
+
+      describe("set-stacking-paused()", () => {
+        it("throws ERR_UNAUTHORIZED error when called by someone other than the admin", () => {
+          const block = chain.mineBlock([
+            client.setStackingPaused(true, wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+          assertEquals(client.getContractStatus().stackingPaused, false);
+        });
+
+        it("refuses new Stacking until Stacking is unpaused, but not mining", () => {
+          const block = chain.mineBlock([
+            client.setStackingPaused(true, deployer),
+            client.stackTokens(100, START_HEIGHT, 1, wallet_2),
+            client.extendStacking(1, wallet_1),
+            client.increaseStacking(100, wallet_1),
+            client.delegateStackTokens(wallet_2, 100, START_HEIGHT, 1, wallet_3),
+            client.mineTokens(100, wallet_4)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_STACKING_PAUSED);
+          block.receipts[2].result.expectErr().expectUint(ErrCode.ERR_STACKING_PAUSED);
+          block.receipts[3].result.expectErr().expectUint(ErrCode.ERR_STACKING_PAUSED);
+          block.receipts[4].result.expectErr().expectUint(ErrCode.ERR_STACKING_PAUSED);
+          block.receipts[5].result.expectOk().expectBool(true);
+          assertEquals(client.getContractStatus().stackingPaused, true);
+
+          const unpausedBlock = chain.mineBlock([
+            client.setStackingPaused(false, deployer),
+            client.stackTokens(100, START_HEIGHT, 1, wallet_2)
+          ]);
+
+          unpausedBlock.receipts[1].result.expectOk().expectBool(true);
+        });
+
+        it("lets Stackers claim their rewards and unlocked tokens", () => {
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+          chain.mineBlock([
+            client.mineTokens(1000, wallet_4),
+            client.setStackingPaused(true, deployer)
+          ]);
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH * 2);
+
+          const block = chain.mineBlock([
+            client.claimStackingReward(1, wallet_1),
+            client.claimUnlockedTokens(wallet_1)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          block.receipts[1].result.expectOk().expectBool(true);
+          assertEquals(client.getBalance(wallet_1), { ok: true, value: 1000n });
+        });
+      });
+
+      describe("shutdown-contract()", () => {
+        it("throws ERR_UNAUTHORIZED error when called by someone other than the admin", () => {
+          const block = chain.mineBlock([
+            client.shutdownContract(wallet_1)
+          ]);
+
+          block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+          assertEquals(client.getContractStatus().shutdownHeight, null);
+        });
+
+        it("refuses new commitments and new Stacking for good", () => {
+          const block = chain.mineBlock([
+            client.shutdownContract(deployer),
+            client.mineTokens(100, wallet_4),
+            client.mineMany([100, 100], wallet_4),
+            client.stackTokens(100, START_HEIGHT, 1, wallet_2),
+            client.extendStacking(1, wallet_1),
+            client.increaseStacking(100, wallet_1),
+            client.delegateStackTokens(wallet_2, 100, START_HEIGHT, 1, wallet_3),
+            client.setMiningPaused(false, deployer),
+            client.setStackingPaused(false, deployer),
+            client.setContractAdmin(wallet_1, deployer),
+            client.shutdownContract(deployer)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          assertEquals(client.parseEvents(block.receipts[0].events), [
+            {
+              event: "shutdown",
+              version: BigInt(EVENT_SCHEMA_VERSION),
+              height: BigInt(block.height)
+            }
+          ]);
+          block.receipts.slice(1).forEach((receipt) => {
+            receipt.result.expectErr().expectUint(ErrCode.ERR_CONTRACT_SHUT_DOWN);
+          });
+          assertEquals(client.getContractStatus(), {
+            admin: deployer.address,
+            miningPaused: false,
+            stackingPaused: false,
+            shutdownHeight: BigInt(block.height)
+          });
+        });
+
+        it("lets Stackers claim their tokens back before they unlock", () => {
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+          chain.mineBlock([
+            client.claimUnlockedTokens(wallet_1)
+          ]).receipts[0].result.expectErr().expectUint(ErrCode.ERR_TOKENS_NOT_UNLOCKED);
+
+          chain.mineBlock([client.shutdownContract(deployer)]);
+          assertEquals(client.getStackerUnlockInfo(wallet_1).unlocked, true);
+          const block = chain.mineBlock([
+            client.claimUnlockedTokens(wallet_1)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          assertEquals(client.getBalance(wallet_1), { ok: true, value: 1000n });
+        });
+
+        it("takes the tokens claimed back early out of the reward cycles after the current one", () => {
+          // wallet_3 Stacks 100 of their own tokens and 300 of wallet_2's in reward cycles 1 and 2
+          chain.mineBlock([
+            client.ftMint(100, wallet_3),
+            client.stackTokens(100, START_HEIGHT, 2, wallet_3),
+            client.delegateStackTokens(wallet_2, 300, START_HEIGHT, 2, wallet_3)
+          ]);
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+          chain.mineBlock([client.shutdownContract(deployer)]);
+
+          const block = chain.mineBlock([
+            client.claimUnlockedTokens(wallet_1),
+            client.claimUnlockedTokens(wallet_2)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          block.receipts[1].result.expectOk().expectBool(true);
+          assertEquals(client.getBalance(wallet_2), { ok: true, value: 1000n });
+          // the current reward cycle is left as it was
+          assertEquals(client.getTokensPerCycle(1).totalTokens, 900n);
+          assertEquals(client.getStackedInCycle(wallet_1, 1), 500n);
+          assertEquals(client.getVotingPower(wallet_2, 1), 300n);
+          assertEquals(client.getVotingPower(wallet_3, 1), 100n);
+          // the next one only counts wallet_3's own tokens
+          assertEquals(client.getTokensPerCycle(2).totalTokens, 100n);
+          assertEquals(client.getStackedInCycle(wallet_1, 2), 0n);
+          assertEquals(client.getStackedInCycle(wallet_3, 2), 100n);
+          assertEquals(client.getDelegatedInCycle(wallet_3, wallet_2, 2), 0n);
+          assertEquals(client.getOperatorDelegatedInCycle(wallet_3, 2), 0n);
+          assertEquals(client.getVotingPower(wallet_2, 2), 0n);
+          assertEquals(client.getVotingPower(wallet_3, 2), 100n);
+
+          chain.mineBlock([
+            client.claimUnlockedTokens(wallet_3)
+          ]).receipts[0].result.expectOk().expectBool(true);
+
+          assertEquals(client.getTokensPerCycle(2).totalTokens, 0n);
+          assertEquals(client.getStackedInCycle(wallet_3, 2), 0n);
+        });
+
+        it("takes the tokens claimed back early out of every reward cycle, however late their Stacking starts", () => {
+          // wallet_3 Stacks 100 of their own tokens and 300 of wallet_2's in the last two reward cycles they can
+          const startStacksHeight = FIRST_STACKING_BLOCK + (MAX_REWARD_CYCLES - 2) * REWARD_CYCLE_LENGTH + 100;
+          chain.mineBlock([
+            client.ftMint(100, wallet_3),
+            client.stackTokens(100, startStacksHeight, 2, wallet_3),
+            client.delegateStackTokens(wallet_2, 300, startStacksHeight, 2, wallet_3)
+          ]).receipts.forEach((receipt) => receipt.result.expectOk());
+          chain.mineBlock([client.shutdownContract(deployer)]);
+
+          const block = chain.mineBlock([
+            client.claimUnlockedTokens(wallet_2),
+            client.claimUnlockedTokens(wallet_3)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          block.receipts[1].result.expectOk().expectBool(true);
+          [MAX_REWARD_CYCLES - 1, MAX_REWARD_CYCLES].forEach((rewardCycle) => {
+            assertEquals(client.getTokensPerCycle(rewardCycle).totalTokens, 0n);
+            assertEquals(client.getStackedInCycle(wallet_3, rewardCycle), 0n);
+            assertEquals(client.getDelegatedInCycle(wallet_3, wallet_2, rewardCycle), 0n);
+            assertEquals(client.getVotingPower(wallet_2, rewardCycle), 0n);
+            assertEquals(client.getVotingPower(wallet_3, rewardCycle), 0n);
+          });
+        });
+
+        it("voids the commitments made to the blocks after the shutdown, and refunds them in full", () => {
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+          const minedHeight = chain.mineBlock([
+            client.mineMany([100, 100, 100, 100, 100], wallet_4)
+          ]).height;
+
+          const block = chain.mineBlock([client.shutdownContract(deployer)]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          assertEquals(block.height, minedHeight + 1);
+          // only the commitments to minedHeight and the shutdown block are left to Stackers and the city
+          assertEquals(client.getTokensPerCycle(1).totalUstx, 140n);
+          assertEquals(client.getCityUstxInCycle(1), 60n);
+          assertEquals(client.getCityPendingUstx(), 0n);
+          assertEquals(client.getCityWalletInfo().unclaimedUstx, 60n);
+
+          chain.mineEmptyBlockUntil(minedHeight + 4 + TOKEN_REWARD_MATURITY + 1);
+          const claimBlock = chain.mineBlock([
+            client.claimTokenReward(minedHeight + 1, wallet_4),
+            client.claimTokenReward(minedHeight + 2, wallet_4),
+            client.cancelMining(0, wallet_4),
+            client.cancelMining(0, wallet_4)
+          ]);
+
+          claimBlock.receipts[0].result.expectOk().expectBool(true);
+          claimBlock.receipts[1].result.expectErr().expectUint(ErrCode.ERR_CONTRACT_SHUT_DOWN);
+          claimBlock.receipts[2].result.expectOk().expectBool(true);
+          claimBlock.receipts[2].events.expectSTXTransferEvent(
+            300,
+            client.getContractAddress(),
+            wallet_4.address
+          );
+          claimBlock.receipts[3].result.expectErr().expectUint(ErrCode.ERR_NOTHING_TO_REDEEM);
+          assertEquals(client.getMinerCommitment(wallet_4, minedHeight + 2), null);
+          assertEquals(client.getTokensPerCycle(1).totalUstx, 140n);
+          assertEquals(client.getCityWalletInfo().unclaimedUstx, 60n);
+        });
+
+        it("lets Stackers claim the uSTX committed before the shutdown, and the custodian withdraw the city's", () => {
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+          chain.mineBlock([
+            client.mineTokens(1000, wallet_4),
+            client.shutdownContract(deployer)
+          ]);
+          chain.mineEmptyBlock(REWARD_CYCLE_LENGTH);
+
+          const block = chain.mineBlock([
+            client.claimUnlockedTokens(wallet_1),
+            client.claimStackingReward(1, wallet_1),
+            client.withdrawCityFunds(300, deployer)
+          ]);
+
+          block.receipts[0].result.expectOk().expectBool(true);
+          block.receipts[1].result.expectOk().expectBool(true);
+          block.receipts[1].events.expectSTXTransferEvent(
+            700,
+            client.getContractAddress(),
+            wallet_1.address
+          );
+          block.receipts[2].result.expectOk().expectBool(true);
+        });
+      });
+    });
+
+    describe("register-miner", () => {
+      it("succeeds with (ok true)", () => {
+        setupCleanEnv();
+
+        const block = chain.mineBlock([
+          client.registerMiner(wallet_1)
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectOk().expectBool(true);
+        assertEquals(receipt.events.length, 1);
+        assertEquals(client.parseEvents(receipt.events), [
+          {
+            event: "register",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            miner: wallet_1.address,
+            registeredMiners: 1n,
+            activationBlock: null
+          }
+        ]);
+        assert(client.isMinerRegistered(wallet_1));
+        assert(!client.isMinerRegistered(wallet_2));
+      });
+
+      it("fails with ERR_MINER_ALREADY_REGISTERED error when miner wants to register second time", () => {
+        setupCleanEnv();
+
+        const block = chain.mineBlock([
+          client.registerMiner(wallet_1),
+          client.registerMiner(wallet_1)
+        ]);
+
+        const receipt = block.receipts[1];
+
+        receipt.result.expectErr().expectUint(ErrCode.ERR_MINER_ALREADY_REGISTERED);
+        assertEquals(receipt.events.length, 0);
+      });
+
+      it("fails with ERR_MINING_ACTIVATION_THRESHOLD_REACHED error when miner wants to register after reaching activation threshold", () => {
+        setupCleanEnv();
+        activateMining();
+
+        const block = chain.mineBlock([
+          client.registerMiner(accounts.get('wallet_6')!)
+        ]);
+
+        const receipt = block.receipts[0];
+
+        receipt.result.expectErr().expectUint(ErrCode.ERR_MINING_ACTIVATION_THRESHOLD_REACHED);
         assertEquals(receipt.events.length, 0);
       })
+
+      it("does not activate mining until 5 miners registered", () => {
+        setupCleanEnv();
+
+        chain.mineBlock([
+          client.registerMiner(wallet_1),
+          client.registerMiner(wallet_2),
+          client.registerMiner(wallet_3),
+          client.registerMiner(wallet_4)
+        ]);
+        chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+        assertEquals(client.getActivationStatus(), {
+          registeredMiners: 4n,
+          threshold: BigInt(MINING_ACTIVATION_THRESHOLD),
+          activated: false,
+          activationBlock: null
+        });
+
+        const block = chain.mineBlock([
+          client.mineTokens(10, wallet_1)
+        ]);
+
+        block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+      });
+
+      it("activates mining MINING_ACTIVATION_DELAY blocks after the 5th miner registered", () => {
+        setupCleanEnv();
+
+        chain.mineBlock([
+          client.registerMiner(wallet_1),
+          client.registerMiner(wallet_2)
+        ]);
+        const block = chain.mineBlock([
+          client.registerMiner(wallet_3),
+          client.registerMiner(wallet_4),
+          client.registerMiner(wallet_5)
+        ]);
+        const activationBlock = block.height + MINING_ACTIVATION_DELAY;
+
+        assertEquals(client.parseEvents(block.receipts[2].events), [
+          {
+            event: "register",
+            version: BigInt(EVENT_SCHEMA_VERSION),
+            miner: wallet_5.address,
+            registeredMiners: 5n,
+            activationBlock: BigInt(activationBlock)
+          }
+        ]);
+
+        assertEquals(client.getActivationStatus(), {
+          registeredMiners: 5n,
+          threshold: BigInt(MINING_ACTIVATION_THRESHOLD),
+          activated: true,
+          activationBlock: BigInt(activationBlock)
+        });
+
+        chain.mineEmptyBlockUntil(activationBlock - 2);
+        const blockBefore = chain.mineBlock([
+          client.mineTokens(10, wallet_1)
+        ]);
+        assertEquals(blockBefore.height, activationBlock - 1);
+        blockBefore.receipts[0].result.expectErr().expectUint(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+
+        const blockAfter = chain.mineBlock([
+          client.mineTokens(10, wallet_1)
+        ]);
+        blockAfter.receipts[0].result.expectOk().expectBool(true);
+      });
     });
   });
 });
\ No newline at end of file
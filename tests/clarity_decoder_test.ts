@@ -0,0 +1,118 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.93.0/testing/asserts.ts";
+
+import {
+  describe,
+  it,
+} from "https://deno.land/x/test_suite@v0.7.0/mod.ts";
+
+import {
+  ClarityResponse,
+  ClaritySome,
+  ClarityValue,
+  decodeClarityValue,
+  asOptional,
+  asUint,
+} from "../src/clarity-decoder.ts";
+
+import {
+  ErrCode,
+  decodeResult,
+} from "../src/citycoin-client.ts";
+
+describe('[Clarity decoder]', () => {
+  describe("decodeClarityValue()", () => {
+    it("decodes primitive values", () => {
+      assertEquals(decodeClarityValue("u100"), 100n);
+      assertEquals(decodeClarityValue("-5"), -5n);
+      assertEquals(decodeClarityValue("true"), true);
+      assertEquals(decodeClarityValue("false"), false);
+      assertEquals(decodeClarityValue('"citycoins"'), "citycoins");
+      assertEquals(decodeClarityValue('u"miami"'), "miami");
+      assertEquals(decodeClarityValue("0x00ff"), new Uint8Array([0, 255]));
+    });
+
+    it("decodes uints above 2^53 without losing precision", () => {
+      assertEquals(
+        decodeClarityValue("u340282366920938463463374607431768211455"),
+        340282366920938463463374607431768211455n
+      );
+    });
+
+    it("decodes standard and contract principals", () => {
+      assertEquals(
+        decodeClarityValue("ST1J4G6RR643BCG8G8SR6M2D9Z9KXT2NJDRK3FBTK"),
+        "ST1J4G6RR643BCG8G8SR6M2D9Z9KXT2NJDRK3FBTK"
+      );
+      assertEquals(
+        decodeClarityValue("'ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE.citycoin"),
+        "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE.citycoin"
+      );
+    });
+
+    it("decodes optionals", () => {
+      assertEquals(decodeClarityValue("none"), null);
+      assertEquals(decodeClarityValue("(some u1)"), 1n);
+    });
+
+    it("tells (some none) and none apart", () => {
+      assertEquals(decodeClarityValue("(some none)"), new ClaritySome(null));
+      assertEquals(decodeClarityValue("(some (some u1))"), new ClaritySome(1n));
+      assertEquals(decodeClarityValue("(some {a: none})"), { "a": null });
+    });
+
+    it("decodes responses", () => {
+      assertEquals(decodeClarityValue("(ok true)"), new ClarityResponse(true, true));
+      assertEquals(decodeClarityValue("(err u3)"), new ClarityResponse(false, 3n));
+    });
+
+    it("decodes nested lists and tuples", () => {
+      const value = decodeClarityValue(
+        "(ok [{amount-ustx: u1, miner: ST1J4G6RR643BCG8G8SR6M2D9Z9KXT2NJDRK3FBTK}, {amount-ustx: u2, miner: ST20ATRN26N9P05V2F1RHFRV24X8C8M3W54E427B2}])"
+      );
+
+      assertEquals(value, new ClarityResponse(true, [
+        { "amount-ustx": 1n, "miner": "ST1J4G6RR643BCG8G8SR6M2D9Z9KXT2NJDRK3FBTK" },
+        { "amount-ustx": 2n, "miner": "ST20ATRN26N9P05V2F1RHFRV24X8C8M3W54E427B2" },
+      ]));
+      assertEquals(decodeClarityValue("[]"), []);
+    });
+
+    it("throws on malformed input", () => {
+      assertThrows(() => decodeClarityValue("(ok u1"));
+      assertThrows(() => decodeClarityValue("u1 u2"));
+      assertThrows(() => decodeClarityValue("{total-ustx u1}"));
+    });
+  });
+
+  describe("asOptional()", () => {
+    it("unwraps one level of optional at a time", () => {
+      const decode = (value: ClarityValue) => asOptional(value, (inner) => ({ value: asOptional(inner, asUint) }));
+
+      assertEquals(decode(decodeClarityValue("none")), null);
+      assertEquals(decode(decodeClarityValue("(some none)")), { value: null });
+      assertEquals(decode(decodeClarityValue("(some (some u1))")), { value: 1n });
+      assertEquals(asOptional(decodeClarityValue("(some u1)"), asUint), 1n);
+    });
+  });
+
+  describe("asUint()", () => {
+    it("rejects negative integers", () => {
+      assertEquals(asUint(decodeClarityValue("u5")), 5n);
+      assertThrows(() => asUint(decodeClarityValue("-5")), Error, "Expected unsigned integer");
+    });
+  });
+
+  describe("decodeResult()", () => {
+    it("maps (ok x) onto value", () => {
+      const result = decodeResult(decodeClarityValue("(ok u10)"), (value) => value);
+
+      assertEquals(result, { ok: true, value: 10n });
+    });
+
+    it("maps (err uN) onto ErrCode", () => {
+      const result = decodeResult(decodeClarityValue("(err u9)"), (value) => value);
+
+      assertEquals(result, { ok: false, error: ErrCode.ERR_ROUND_FULL });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { types } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import { assertEquals, assertThrows } from "https://deno.land/std@0.93.0/testing/asserts.ts";
+
+import {
+  describe,
+  it,
+} from "https://deno.land/x/test_suite@v0.7.0/mod.ts";
+
+import {
+  ClarityResponse,
+  decodeClarityValue
+} from "../src/clarity-decoder.ts";
+
+import {
+  bytesToHex,
+  deserializeClarityValue,
+  serializeClarityValue
+} from "../src/clarity-serializer.ts";
+
+import {
+  c32Address,
+  c32AddressDecode
+} from "../src/c32.ts";
+
+const DEPLOYER = "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE";
+const WALLET_1 = "ST1J4G6RR643BCG8G8SR6M2D9Z9KXT2NJDRK3FBTK";
+
+// expected encodings, as produced by @stacks/transactions' serializeCV()
+const GOLDEN: [string, string][] = [
+  [types.int(-5), "0x00fffffffffffffffffffffffffffffffb"],
+  [types.uint(340282366920938463463374607431768211455n), "0x01ffffffffffffffffffffffffffffffff"],
+  ["0x00ff", "0x020000000200ff"],
+  [types.bool(true), "0x03"],
+  [types.bool(false), "0x04"],
+  [types.ascii('a"b'), "0x0d00000003612262"],
+  [types.utf8("café"), "0x0e00000005636166c3a9"],
+  [types.principal(WALLET_1), "0x051a64481b183106b6411046706a09a9fa67dd0ab26e"],
+  [types.principal(`${DEPLOYER}.miamicoin`), "0x061a63a5eda39412c016478ae5a8c300843879f78245096d69616d69636f696e"],
+  [types.ok(types.uint(1)), "0x070100000000000000000000000000000001"],
+  [types.err(types.uint(3)), "0x080100000000000000000000000000000003"],
+  [types.none(), "0x09"],
+  [types.some(types.uint(7)), "0x0a0100000000000000000000000000000007"],
+  [types.some(types.none()), "0x0a09"],
+  [types.some(types.some(types.uint(7))), "0x0a0a0100000000000000000000000000000007"],
+  [types.list([]), "0x0b00000000"],
+  [types.list([types.uint(1), types.uint(2)]), "0x0b0000000201000000000000000000000000000000010100000000000000000000000000000002"],
+  // fields are sorted by name
+  [
+    types.tuple({ "b": types.uint(2), "a-b": types.uint(1), "a": types.bool(true) }),
+    "0x0c0000000301610303612d62010000000000000000000000000000000101620100000000000000000000000000000002"
+  ]
+];
+
+describe('[Clarity serializer]', () => {
+  describe("serializeClarityValue()", () => {
+    it("encodes every type like the Stacks node does", () => {
+      for (const [repr, hex] of GOLDEN) {
+        assertEquals(bytesToHex(serializeClarityValue(repr)), hex, repr);
+      }
+    });
+
+    it("rejects malformed values and addresses", () => {
+      assertThrows(() => serializeClarityValue("(foo u1)"), Error, "unknown wrapper 'foo'");
+      assertThrows(() => serializeClarityValue("u1 u2"), Error, "unexpected trailing input");
+      assertThrows(() => serializeClarityValue("'ST1J4G6RR643BCG8G8SR6M2D9Z9KXT2NJDRK3FBTA"), Error, "Invalid checksum");
+    });
+  });
+
+  describe("deserializeClarityValue()", () => {
+    it("decodes every type like decodeClarityValue() does", () => {
+      // Clarinet's results write lists as [a, b] rather than (list a b), which the decoder doesn't read
+      for (const [repr, hex] of GOLDEN.filter(([repr]) => !repr.startsWith("(list"))) {
+        assertEquals(deserializeClarityValue(hex), decodeClarityValue(repr), repr);
+      }
+      assertEquals(deserializeClarityValue("0x0b00000000"), []);
+    });
+
+    it("decodes nested responses, optionals and tuples", () => {
+      const hex = "0x070a0c0000000207636c61696d656404066d696e6572730b000000010c000000020b616d6f756e742d7573747801"
+        + "00000000000000000000000000000064056d696e6572051a64481b183106b6411046706a09a9fa67dd0ab26e";
+
+      assertEquals(deserializeClarityValue(hex), new ClarityResponse(true, {
+        "claimed": false,
+        "miners": [{ "amount-ustx": 100n, "miner": WALLET_1 }]
+      }));
+    });
+
+    it("rejects truncated input", () => {
+      assertThrows(() => deserializeClarityValue("0x0100"), Error, "unexpected end of input");
+      assertThrows(() => deserializeClarityValue("0x0303"), Error, "unexpected trailing bytes");
+    });
+  });
+
+  describe("c32AddressDecode()", () => {
+    it("round-trips with c32Address()", () => {
+      for (const address of [DEPLOYER, WALLET_1, "STEB8ZW46YZJ40E3P7A287RBJFWPHYNQ2AB5ECT8", "SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE"]) {
+        const { version, hash160 } = c32AddressDecode(address);
+        assertEquals(c32Address(version, hash160), address);
+      }
+      assertEquals(c32AddressDecode(WALLET_1).version, 26);
+      assertEquals(c32AddressDecode("SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE").version, 22);
+    });
+  });
+});
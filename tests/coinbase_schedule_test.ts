@@ -0,0 +1,87 @@
+import { assertEquals } from "https://deno.land/std@0.93.0/testing/asserts.ts";
+
+import {
+  describe,
+  it,
+} from "https://deno.land/x/test_suite@v0.7.0/mod.ts";
+
+import {
+  CoinbaseSchedule,
+  coinbaseEpoch,
+  epochEndHeight,
+  expectedCoinbase,
+  projectSupply,
+  totalSupplyAt,
+} from "../src/coinbase-schedule.ts";
+
+describe('[Coinbase schedule]', () => {
+  const activationHeight = 101;
+
+  describe("expectedCoinbase()", () => {
+    it("returns 0 before activation", () => {
+      assertEquals(expectedCoinbase(0, activationHeight), 0n);
+      assertEquals(expectedCoinbase(100, activationHeight), 0n);
+      assertEquals(coinbaseEpoch(100, activationHeight), null);
+    });
+
+    it("pays out the bonus during the first 10,000 blocks", () => {
+      assertEquals(expectedCoinbase(101, activationHeight), 250000000000n);
+      assertEquals(expectedCoinbase(10100, activationHeight), 250000000000n);
+      assertEquals(expectedCoinbase(10101, activationHeight), 100000000000n);
+    });
+
+    it("halves the coinbase every 210,000 blocks until 3,125 CityCoins", () => {
+      const expected = [100000000000n, 50000000000n, 25000000000n, 12500000000n, 6250000000n, 3125000000n, 3125000000n];
+
+      expected.forEach((amount, i) => {
+        const height = activationHeight + i * 210000 + 10000;
+        assertEquals(expectedCoinbase(height, activationHeight), amount, `height ${height}`);
+      });
+    });
+  });
+
+  describe("epochEndHeight()", () => {
+    it("returns the height of the next reduction, or null in the last epoch", () => {
+      assertEquals(epochEndHeight(0, activationHeight), activationHeight + 10000);
+      assertEquals(epochEndHeight(1, activationHeight), activationHeight + 210000);
+      assertEquals(epochEndHeight(5, activationHeight), activationHeight + 5 * 210000);
+      assertEquals(epochEndHeight(6, activationHeight), null);
+    });
+  });
+
+  describe("projectSupply()", () => {
+    const schedule: CoinbaseSchedule = { bonusPeriod: 3, epochLength: 7, amounts: [50n, 20n, 10n, 5n] };
+
+    it("matches summing expectedCoinbase block by block", () => {
+      for (let untilHeight = activationHeight; untilHeight < activationHeight + 40; untilHeight++) {
+        let sum = 0n;
+        for (let height = activationHeight; height < untilHeight; height++) {
+          sum += expectedCoinbase(height, activationHeight, schedule);
+        }
+
+        assertEquals(totalSupplyAt(activationHeight, untilHeight, schedule), sum, `until ${untilHeight}`);
+      }
+    });
+
+    it("reports the supply at the end of each epoch", () => {
+      const projection = projectSupply(activationHeight, activationHeight + 30, schedule);
+
+      assertEquals(projection, [
+        { height: activationHeight + 3, epoch: 0, totalSupply: 150n },
+        { height: activationHeight + 7, epoch: 1, totalSupply: 230n },
+        { height: activationHeight + 14, epoch: 2, totalSupply: 300n },
+        { height: activationHeight + 30, epoch: 3, totalSupply: 380n },
+      ]);
+    });
+
+    it("projects the supply after the last halving", () => {
+      const lastHalving = activationHeight + 5 * 210000;
+
+      // 10,000 bonus blocks, 200,000 blocks at 100k, then 4 halvings of 210,000 blocks each
+      assertEquals(
+        totalSupplyAt(activationHeight, lastHalving),
+        10000n * 250000000000n + 200000n * 100000000000n + 210000n * (50000000000n + 25000000000n + 12500000000n + 6250000000n)
+      );
+    });
+  });
+});
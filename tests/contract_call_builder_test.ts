@@ -0,0 +1,87 @@
+import { Account, Tx } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import { assertEquals } from "https://deno.land/std@0.93.0/testing/asserts.ts";
+
+import {
+  describe,
+  it,
+} from "https://deno.land/x/test_suite@v0.7.0/mod.ts";
+
+import { CityCoinClient } from "../src/citycoin-client.ts";
+import { MIAMICOIN } from "../src/city-configs.ts";
+import { decodeClarityValue } from "../src/clarity-decoder.ts";
+import { deserializeClarityValue } from "../src/clarity-serializer.ts";
+import {
+  ContractCallBuilder,
+  ContractCallOptions,
+  FungibleConditionCode,
+  tokenPostCondition
+} from "../src/contract-call-builder.ts";
+
+import { GOLDEN_CONTRACT_CALLS } from "./golden/contract_calls.ts";
+
+import { setupChain } from "./helpers/chain_setup.ts";
+
+describe('[ContractCallBuilder]', () => {
+  let client: CityCoinClient;
+  let builder: ContractCallBuilder;
+  let deployer: Account;
+  let wallet_1: Account;
+
+  function setupAccounts() {
+    const { chain, accounts } = setupChain();
+
+    deployer = accounts.get('deployer')!;
+    wallet_1 = accounts.get('wallet_1')!;
+    client = new CityCoinClient(chain, deployer);
+    builder = new ContractCallBuilder(deployer.address);
+  }
+
+  // the same calls, built by CityCoinClient for Clarinet and by ContractCallBuilder for a wallet
+  function calls(): [Tx, ContractCallOptions][] {
+    return [
+      [client.registerMiner(wallet_1), builder.registerMiner()],
+      [client.mineTokens(1000, wallet_1), builder.mineTokens(1000, wallet_1.address)],
+      [client.stackTokens(500, 1200, 6, wallet_1), builder.stackTokens(500, 1200, 6, wallet_1.address)],
+      [client.claimTokenReward(1200, wallet_1), builder.claimTokenReward(1200)],
+      [client.claimStackingReward(3, wallet_1), builder.claimStackingReward(3, 250)]
+    ];
+  }
+
+  describe("contract calls", () => {
+    it("match the golden file", () => {
+      setupAccounts();
+
+      assertEquals(builder.registerMiner(), GOLDEN_CONTRACT_CALLS.registerMiner);
+      assertEquals(builder.mineTokens(1000, wallet_1.address), GOLDEN_CONTRACT_CALLS.mineTokens);
+      assertEquals(builder.stackTokens(500, 1200, 6, wallet_1.address), GOLDEN_CONTRACT_CALLS.stackTokens);
+      assertEquals(builder.claimTokenReward(1200), GOLDEN_CONTRACT_CALLS.claimTokenReward);
+      assertEquals(builder.claimStackingReward(3, 250), GOLDEN_CONTRACT_CALLS.claimStackingReward);
+    });
+
+    it("pass the same function and arguments as CityCoinClient", () => {
+      setupAccounts();
+
+      for (const [tx, options] of calls()) {
+        assertEquals(`${options.contractAddress}.${options.contractName}`, client.getContractAddress());
+        assertEquals(options.functionName, tx.contractCall!.method);
+        assertEquals(options.functionArgs.map((arg) => deserializeClarityValue(arg)),
+          tx.contractCall!.args.map((arg) => decodeClarityValue(arg)));
+      }
+    });
+
+    it("can target a city's generated contract", () => {
+      setupAccounts();
+      const miami = new ContractCallBuilder(deployer.address, MIAMICOIN);
+
+      const options = miami.stackTokens(500, 1200, 6, wallet_1.address);
+
+      assertEquals(options.contractName, "miamicoin");
+      assertEquals(options.postConditions, [
+        "0x01021a64481b183106b6411046706a09a9fa67dd0ab26e1a63a5eda39412c016478ae5a8c300843879f78245096d69616d69636f"
+          + "696e0963697479636f696e730100000000000001f4"
+      ]);
+      assertEquals(options.postConditions[0],
+        tokenPostCondition(wallet_1.address, FungibleConditionCode.Equal, 500, `${deployer.address}.miamicoin`));
+    });
+  });
+});
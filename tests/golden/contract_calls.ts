@@ -0,0 +1,66 @@
+// Contract calls expected from ContractCallBuilder for the deployer's `citycoin` contract and wallet_1.
+// Arguments and post-conditions were serialized with @stacks/transactions' serializeCV() and serializePostCondition().
+
+export const GOLDEN_CONTRACT_CALLS = {
+  registerMiner: {
+    contractAddress: "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE",
+    contractName: "citycoin",
+    functionName: "register-miner",
+    functionArgs: [],
+    postConditionMode: 2,
+    postConditions: []
+  },
+  // mineTokens(1000, wallet_1)
+  mineTokens: {
+    contractAddress: "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE",
+    contractName: "citycoin",
+    functionName: "mine-tokens",
+    functionArgs: [
+      "0x01000000000000000000000000000003e8"
+    ],
+    postConditionMode: 2,
+    postConditions: [
+      "0x00021a64481b183106b6411046706a09a9fa67dd0ab26e0100000000000003e8"
+    ]
+  },
+  // stackTokens(500, 1200, 6, wallet_1)
+  stackTokens: {
+    contractAddress: "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE",
+    contractName: "citycoin",
+    functionName: "stack-tokens",
+    functionArgs: [
+      "0x01000000000000000000000000000001f4",
+      "0x01000000000000000000000000000004b0",
+      "0x0100000000000000000000000000000006"
+    ],
+    postConditionMode: 2,
+    postConditions: [
+      "0x01021a64481b183106b6411046706a09a9fa67dd0ab26e1a63a5eda39412c016478ae5a8c300843879f782450863697479636f696e"
+        + "0963697479636f696e730100000000000001f4"
+    ]
+  },
+  // claimTokenReward(1200)
+  claimTokenReward: {
+    contractAddress: "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE",
+    contractName: "citycoin",
+    functionName: "claim-token-reward",
+    functionArgs: [
+      "0x01000000000000000000000000000004b0"
+    ],
+    postConditionMode: 2,
+    postConditions: []
+  },
+  // claimStackingReward(3, 250)
+  claimStackingReward: {
+    contractAddress: "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE",
+    contractName: "citycoin",
+    functionName: "claim-stacking-reward",
+    functionArgs: [
+      "0x0100000000000000000000000000000003"
+    ],
+    postConditionMode: 2,
+    postConditions: [
+      "0x00031a63a5eda39412c016478ae5a8c300843879f782450863697479636f696e0100000000000000fa"
+    ]
+  }
+};
@@ -0,0 +1,21 @@
+// Fresh Clarinet session shared by the test suites: deploys the contracts of Clarinet.toml and funds its accounts.
+
+import { Chain, Account } from "https://deno.land/x/clarinet@v0.6.0/index.ts";
+
+export interface ChainSetup {
+  chain: Chain,
+  // by name, e.g. "deployer" or "wallet_1"
+  accounts: Map<string, Account>
+}
+
+export function setupChain(): ChainSetup {
+  (Deno as any).core.ops();
+  const result = (Deno as any).core.jsonOpSync("setup_chain", { transactions: [] });
+
+  const accounts: Map<string, Account> = new Map();
+  for (const account of result['accounts']) {
+    accounts.set(account.name, account);
+  }
+
+  return { chain: new Chain(result['session_id']), accounts };
+}
@@ -0,0 +1,199 @@
+import { Chain, Account } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import { assertEquals, assert } from "https://deno.land/std@0.93.0/testing/asserts.ts";
+
+import {
+  describe,
+  it,
+} from "https://deno.land/x/test_suite@v0.7.0/mod.ts";
+
+import {
+  CityCoinClient,
+  ErrCode,
+  MINING_ACTIVATION_DELAY,
+  TOKEN_REWARD_MATURITY
+} from "../src/citycoin-client.ts";
+
+import { CityCoinEvent, EVENT_SCHEMA_VERSION } from "../src/citycoin-events.ts";
+
+import {
+  BlockRewardReport,
+  MinerRewardScanner,
+  claimableHeights,
+  minedHeights
+} from "../src/miner-reward-scanner.ts";
+
+import { setupChain } from "./helpers/chain_setup.ts";
+
+describe('[MinerRewardScanner]', () => {
+  const MINED_BLOCKS = 20;
+
+  let chain: Chain;
+  let client: CityCoinClient;
+  let scanner: MinerRewardScanner;
+  let wallets: Account[];
+  let firstHeight: number;
+  // printed while mining, in order
+  let events: CityCoinEvent[];
+
+  // wallet_1, wallet_2 and wallet_3 mine MINED_BLOCKS blocks in a row, wallet_4 only mines every other block
+  function setupMinedChain() {
+    let accounts: Map<string, Account>;
+    ({ chain, accounts } = setupChain());
+    wallets = [1, 2, 3, 4, 5].map((i) => accounts.get(`wallet_${i}`)!);
+    client = new CityCoinClient(chain, accounts.get('deployer')!);
+    scanner = new MinerRewardScanner(client);
+
+    chain.mineBlock(wallets.map((wallet) => client.registerMiner(wallet)));
+    chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+
+    const amounts = (base: number) => [...Array(MINED_BLOCKS).keys()].map((i) => base + i * 10);
+    const block = chain.mineBlock([
+      client.mineMany(amounts(100), wallets[0]),
+      client.mineMany(amounts(200), wallets[1]),
+      client.mineMany(amounts(300), wallets[2]),
+      client.mineTokens(50, wallets[3])
+    ]);
+    block.receipts.forEach((receipt) => receipt.result.expectOk());
+    firstHeight = block.height;
+    events = block.receipts.flatMap((receipt) => client.parseEvents(receipt.events));
+
+    for (let height = firstHeight + 2; height < firstHeight + MINED_BLOCKS; height += 2) {
+      chain.mineEmptyBlockUntil(height - 1);
+      const receipt = chain.mineBlock([client.mineTokens(50, wallets[3])]).receipts[0];
+      receipt.result.expectOk();
+      events.push(...client.parseEvents(receipt.events));
+    }
+  }
+
+  function scanAll(miner: Account): BlockRewardReport[] {
+    return scanner.scan(miner, firstHeight - 1, firstHeight + MINED_BLOCKS);
+  }
+
+  describe("scan()", () => {
+    it("reports the commits and outcome of each block", () => {
+      setupMinedChain();
+      chain.mineEmptyBlockUntil(firstHeight + MINED_BLOCKS + TOKEN_REWARD_MATURITY + 1);
+
+      const reports = scanAll(wallets[0]);
+      assertEquals(reports.length, MINED_BLOCKS + 2);
+      assertEquals(reports[0], {
+        stacksBlockHeight: firstHeight - 1,
+        minerCommitUstx: null,
+        totalCommitUstx: 0n,
+        status: "not-mined",
+        claimed: false
+      });
+      assertEquals(reports[MINED_BLOCKS + 1].status, "not-mined");
+
+      reports.slice(1, MINED_BLOCKS + 1).forEach((report, i) => {
+        const wallet4Commit = i % 2 == 0 ? 50n : 0n;
+
+        assertEquals(report.minerCommitUstx, BigInt(100 + i * 10));
+        assertEquals(report.totalCommitUstx, BigInt(600 + i * 30) + wallet4Commit);
+        assert(report.status === "won" || report.status === "lost", `${report.status} at ${report.stacksBlockHeight}`);
+        assertEquals(report.claimed, false);
+      });
+    });
+
+    it("reports exactly one winner per mined block", () => {
+      setupMinedChain();
+      chain.mineEmptyBlockUntil(firstHeight + MINED_BLOCKS + TOKEN_REWARD_MATURITY + 1);
+
+      const wins: number[] = [...Array(MINED_BLOCKS).keys()].map(() => 0);
+      for (const wallet of wallets) {
+        scanAll(wallet)
+          .filter((report) => report.status === "won")
+          .forEach((report) => wins[report.stacksBlockHeight - firstHeight]++);
+      }
+
+      assertEquals(wins, [...Array(MINED_BLOCKS).keys()].map(() => 1));
+    });
+
+    it("agrees with claim-token-rewards and tracks claimed blocks", () => {
+      setupMinedChain();
+      chain.mineEmptyBlockUntil(firstHeight + MINED_BLOCKS + TOKEN_REWARD_MATURITY + 1);
+
+      const reports = scanAll(wallets[1]);
+      const won = claimableHeights(reports);
+      const lost = reports.filter((report) => report.status === "lost").map((report) => report.stacksBlockHeight);
+
+      const block = chain.mineBlock([
+        client.claimTokenRewards([...won, ...lost], wallets[1])
+      ]);
+      const outcomes = block.receipts[0].result.expectOk().expectList();
+      won.forEach((_, i) => outcomes[i].expectOk().expectBool(true));
+      lost.forEach((_, i) => outcomes[won.length + i].expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED));
+
+      const rescanned = scanAll(wallets[1]);
+      assertEquals(claimableHeights(rescanned), []);
+      rescanned.filter((report) => won.includes(report.stacksBlockHeight))
+        .forEach((report) => assertEquals(report.claimed, true));
+    });
+
+    it("reports blocks whose VRF seed isn't known yet as pending maturity", () => {
+      setupMinedChain();
+      chain.mineEmptyBlockUntil(firstHeight + TOKEN_REWARD_MATURITY + 5);
+
+      const reports = scanAll(wallets[0]);
+      reports.slice(1, 4).forEach((report) => assert(report.status === "won" || report.status === "lost"));
+      reports.slice(8, MINED_BLOCKS + 1).forEach((report) => assertEquals(report.status, "pending-maturity"));
+    });
+
+    it("only reads the blocks the miner's events say they committed to when asked to", () => {
+      setupMinedChain();
+      chain.mineEmptyBlockUntil(firstHeight + MINED_BLOCKS + TOKEN_REWARD_MATURITY + 1);
+      const expected = scanAll(wallets[3]).filter((report) => report.status !== "not-mined");
+      const scanned: number[] = [];
+      const scanBlock = scanner.scanBlock.bind(scanner);
+      scanner.scanBlock = (miner, height) => {
+        scanned.push(height);
+        return scanBlock(miner, height);
+      };
+
+      const reports = scanner.scan(wallets[3], firstHeight - 1, firstHeight + MINED_BLOCKS, { onlyMined: events });
+
+      const heights = [...Array(MINED_BLOCKS / 2).keys()].map((i) => firstHeight + i * 2);
+      assertEquals(reports.map((report) => report.stacksBlockHeight), heights);
+      assertEquals(scanned, heights);
+      assertEquals(reports, expected);
+      assertEquals(scanner.scan(wallets[3], firstHeight + 3, firstHeight + 6, { onlyMined: events })
+        .map((report) => report.stacksBlockHeight), [firstHeight + 4, firstHeight + 6]);
+      assertEquals(scanner.scan(wallets[4], firstHeight, firstHeight + MINED_BLOCKS, { onlyMined: events }), []);
+    });
+  });
+
+  describe("minedHeights()", () => {
+    const MINER = "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE";
+    const OTHER_MINER = "ST1J4G6RR643BCG8G8SR6M2D9Z9KXT2NJDRK3FBTK";
+
+    function mineEvent(event: "mine" | "cancel-mine", miner: string, height: number): CityCoinEvent {
+      return { event, version: BigInt(EVENT_SCHEMA_VERSION), miner, height: BigInt(height), amountUstx: 100n, cycle: 0n };
+    }
+
+    it("leaves out cancelled commitments and other miners' blocks, in ascending order", () => {
+      assertEquals(minedHeights(MINER, [
+        mineEvent("mine", MINER, 12),
+        mineEvent("mine", MINER, 10),
+        mineEvent("mine", MINER, 11),
+        mineEvent("mine", OTHER_MINER, 13),
+        mineEvent("cancel-mine", MINER, 11),
+        mineEvent("cancel-mine", MINER, 12),
+        mineEvent("mine", MINER, 12)
+      ]), [10, 12]);
+    });
+  });
+
+  describe("scanHeights()", () => {
+    it("reports the given heights only", () => {
+      setupMinedChain();
+      chain.mineEmptyBlockUntil(firstHeight + MINED_BLOCKS + TOKEN_REWARD_MATURITY + 1);
+
+      const heights = [firstHeight + 3, firstHeight];
+
+      assertEquals(scanner.scanHeights(wallets[2], heights), [
+        scanner.scanBlock(wallets[2], firstHeight + 3),
+        scanner.scanBlock(wallets[2], firstHeight)
+      ]);
+    });
+  });
+});
@@ -0,0 +1,365 @@
+import { Chain, Account } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import { assertEquals } from "https://deno.land/std@0.93.0/testing/asserts.ts";
+
+import {
+  beforeEach,
+  describe,
+  it,
+} from "https://deno.land/x/test_suite@v0.7.0/mod.ts";
+
+import {
+  CityCoinClient,
+  ErrCode,
+  MINING_ACTIVATION_DELAY,
+  TOKEN_REWARD_MATURITY
+} from "../src/citycoin-client.ts"
+
+import {
+  MiningPoolClient,
+  PoolErrCode
+} from "../src/mining-pool-client.ts"
+
+import { setupChain } from "./helpers/chain_setup.ts"
+
+describe('[Mining pool]', () => {
+  let chain: Chain;
+  let accounts: Map<string, Account>;
+  let client: CityCoinClient;
+  let pool: MiningPoolClient;
+  let deployer: Account;
+  let wallet_1: Account;
+  let wallet_2: Account;
+  let wallet_3: Account;
+  let wallet_4: Account;
+  let wallet_5: Account;
+
+  function setupCleanEnv() {
+    ({ chain, accounts } = setupChain());
+
+    deployer = accounts.get('deployer')!;
+    wallet_1 = accounts.get('wallet_1')!;
+    wallet_2 = accounts.get('wallet_2')!;
+    wallet_3 = accounts.get('wallet_3')!;
+    wallet_4 = accounts.get('wallet_4')!;
+    wallet_5 = accounts.get('wallet_5')!;
+
+    client = new CityCoinClient(chain, deployer);
+    pool = new MiningPoolClient(chain, deployer);
+  }
+
+  // activate mining on the citycoin contract, and wait until it starts
+  function activateMining() {
+    chain.mineBlock(
+      [wallet_1, wallet_2, wallet_3, wallet_4, wallet_5].map((wallet) => client.registerMiner(wallet))
+    );
+    chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+  }
+
+  beforeEach(() => {
+    setupCleanEnv();
+    activateMining();
+  });
+
+  describe("contribute()", () => {
+    it("throws ERR_CANNOT_CONTRIBUTE error when contributing nothing", () => {
+      const block = chain.mineBlock([
+        pool.contribute(0, wallet_1)
+      ]);
+
+      block.receipts[0].result.expectErr().expectUint(PoolErrCode.ERR_CANNOT_CONTRIBUTE);
+    });
+
+    it("throws ERR_INSUFFICIENT_BALANCE error when contributing more uSTX than the contributor has", () => {
+      const block = chain.mineBlock([
+        pool.contribute(1000000000000000, wallet_1)
+      ]);
+
+      block.receipts[0].result.expectErr().expectUint(PoolErrCode.ERR_INSUFFICIENT_BALANCE);
+    });
+
+    it("adds up contributions to the current round", () => {
+      const block = chain.mineBlock([
+        pool.contribute(100, wallet_1),
+        pool.contribute(200, wallet_2),
+        pool.contribute(50, wallet_1)
+      ]);
+
+      block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+      block.receipts[0].events.expectSTXTransferEvent(100, wallet_1.address, pool.getContractAddress());
+      assertEquals(pool.getCurrentRound(), 0n);
+      assertEquals(pool.getRound(0), { totalUstx: 350n, stacksBlockHeight: null, amountToken: 0n });
+      assertEquals(pool.getContribution(0, wallet_1), { amountUstx: 150n, withdrawn: false });
+      assertEquals(pool.getContribution(0, wallet_2), { amountUstx: 200n, withdrawn: false });
+      assertEquals(pool.getContribution(0, wallet_3), null);
+    });
+  });
+
+  describe("refund-contribution()", () => {
+    it("refunds the current round's contributions until the operator commits it", () => {
+      chain.mineBlock([
+        pool.contribute(100, wallet_1),
+        pool.contribute(300, wallet_2)
+      ]);
+
+      const block = chain.mineBlock([
+        pool.refundContribution(wallet_1),
+        pool.commitRound(deployer),
+        pool.refundContribution(wallet_2)
+      ]);
+
+      block.receipts[0].result.expectOk().expectBool(true);
+      block.receipts[0].events.expectSTXTransferEvent(100, pool.getContractAddress(), wallet_1.address);
+      block.receipts[1].result.expectOk().expectBool(true);
+      // wallet_2's contribution was committed with the round
+      block.receipts[2].result.expectErr().expectUint(PoolErrCode.ERR_NOTHING_TO_WITHDRAW);
+      assertEquals(pool.getRound(0), { totalUstx: 300n, stacksBlockHeight: BigInt(block.height), amountToken: 0n });
+      assertEquals(pool.getContribution(0, wallet_1), null);
+    });
+
+    it("refunds the current round's contributions once the citycoin contract was shut down", () => {
+      chain.mineBlock([
+        pool.contribute(100, wallet_1),
+        pool.contribute(300, wallet_2),
+        client.shutdownContract(deployer)
+      ]);
+
+      const block = chain.mineBlock([
+        pool.commitRound(deployer),
+        pool.refundContribution(wallet_1),
+        pool.refundContribution(wallet_1),
+        pool.refundContribution(wallet_3)
+      ]);
+
+      block.receipts[0].result.expectErr().expectUint(ErrCode.ERR_CONTRACT_SHUT_DOWN);
+      block.receipts[1].result.expectOk().expectBool(true);
+      block.receipts[1].events.expectSTXTransferEvent(100, pool.getContractAddress(), wallet_1.address);
+      block.receipts[2].result.expectErr().expectUint(PoolErrCode.ERR_NOTHING_TO_WITHDRAW);
+      block.receipts[3].result.expectErr().expectUint(PoolErrCode.ERR_NOTHING_TO_WITHDRAW);
+      assertEquals(pool.getRound(0), { totalUstx: 300n, stacksBlockHeight: null, amountToken: 0n });
+      assertEquals(pool.getContribution(0, wallet_1), null);
+    });
+  });
+
+  describe("set-pool-operator()", () => {
+    it("throws ERR_UNAUTHORIZED error when called by anyone but the operator", () => {
+      const block = chain.mineBlock([
+        pool.setPoolOperator(wallet_1, wallet_1)
+      ]);
+
+      block.receipts[0].result.expectErr().expectUint(PoolErrCode.ERR_UNAUTHORIZED);
+      assertEquals(pool.getPoolOperator(), deployer.address);
+    });
+
+    it("hands the operator role over", () => {
+      const block = chain.mineBlock([
+        pool.contribute(100, wallet_1),
+        pool.setPoolOperator(wallet_5, deployer),
+        pool.commitRound(deployer),
+        pool.commitRound(wallet_5)
+      ]);
+
+      block.receipts[1].result.expectOk().expectBool(true);
+      block.receipts[2].result.expectErr().expectUint(PoolErrCode.ERR_UNAUTHORIZED);
+      block.receipts[3].result.expectOk().expectBool(true);
+      assertEquals(pool.getPoolOperator(), wallet_5.address);
+    });
+  });
+
+  describe("commit-round()", () => {
+    it("throws ERR_UNAUTHORIZED error when called by anyone but the operator", () => {
+      const block = chain.mineBlock([
+        pool.contribute(100, wallet_1),
+        pool.commitRound(wallet_1)
+      ]);
+
+      block.receipts[1].result.expectErr().expectUint(PoolErrCode.ERR_UNAUTHORIZED);
+    });
+
+    it("throws ERR_NOTHING_TO_COMMIT error when nobody contributed to the current round", () => {
+      const block = chain.mineBlock([
+        pool.commitRound(deployer)
+      ]);
+
+      block.receipts[0].result.expectErr().expectUint(PoolErrCode.ERR_NOTHING_TO_COMMIT);
+    });
+
+    it("passes through the citycoin contract's error when the pool can't mine", () => {
+      const block = chain.mineBlock([
+        pool.contribute(100, wallet_1),
+        pool.commitRound(deployer),
+        pool.contribute(100, wallet_2),
+        pool.commitRound(deployer)
+      ]);
+
+      block.receipts[3].result.expectErr().expectUint(ErrCode.ERR_ALREADY_MINED);
+      assertEquals(pool.getCurrentRound(), 1n);
+      assertEquals(pool.getRound(1), { totalUstx: 100n, stacksBlockHeight: null, amountToken: 0n });
+    });
+
+    it("mines the current round's uSTX on behalf of the pool and opens the next round", () => {
+      const block = chain.mineBlock([
+        pool.contribute(100, wallet_1),
+        pool.contribute(300, wallet_2),
+        pool.commitRound(deployer)
+      ]);
+
+      block.receipts[2].result.expectOk().expectBool(true);
+      block.receipts[2].events.expectSTXTransferEvent(400, pool.getContractAddress(), client.getContractAddress());
+      assertEquals(client.getMinersAtBlock(block.height), [
+        { miner: pool.getContractAddress(), amountUstx: 400n }
+      ]);
+      assertEquals(pool.getCurrentRound(), 1n);
+      assertEquals(pool.getRound(0), { totalUstx: 400n, stacksBlockHeight: BigInt(block.height), amountToken: 0n });
+    });
+  });
+
+  describe("winning round", () => {
+    let committedHeight: number;
+
+    beforeEach(() => {
+      committedHeight = chain.mineBlock([
+        pool.contribute(300, wallet_1),
+        pool.contribute(100, wallet_2),
+        pool.commitRound(deployer)
+      ]).height;
+    });
+
+    it("can't be claimed before the block reward matures", () => {
+      const block = chain.mineBlock([
+        pool.claimRounds([0], wallet_3)
+      ]);
+
+      const outcomes = block.receipts[0].result.expectOk().expectList();
+      outcomes[0].expectErr().expectUint(ErrCode.ERR_IMMATURE_TOKEN_REWARD);
+      assertEquals(pool.getContributorReward(0, wallet_1), 0n);
+    });
+
+    it("mints the coinbase to the pool, and splits it in proportion to the contributions", () => {
+      chain.mineEmptyBlockUntil(committedHeight + TOKEN_REWARD_MATURITY + 1);
+      const coinbase = client.getCoinbaseAmount(committedHeight);
+
+      const block = chain.mineBlock([
+        pool.claimRounds([0, 1], wallet_3)
+      ]);
+
+      const outcomes = block.receipts[0].result.expectOk().expectList();
+      outcomes[0].expectOk().expectBool(true);
+      outcomes[1].expectErr().expectUint(PoolErrCode.ERR_NO_SUCH_ROUND);
+      assertEquals(client.getBlockSummary(committedHeight).winner, pool.getContractAddress());
+      assertEquals(client.getBalance(wallet_3), { ok: true, value: 0n });
+      assertEquals(pool.getRound(0)!.amountToken, coinbase);
+      assertEquals(pool.getContributorReward(0, wallet_1), coinbase * 3n / 4n);
+      assertEquals(pool.getContributorReward(0, wallet_2), coinbase / 4n);
+      assertEquals(pool.getContributorReward(0, wallet_3), 0n);
+    });
+
+    it("pays each contributor their share once", () => {
+      chain.mineEmptyBlockUntil(committedHeight + TOKEN_REWARD_MATURITY + 1);
+      const coinbase = client.getCoinbaseAmount(committedHeight);
+      chain.mineBlock([pool.claimRounds([0], wallet_3)]);
+
+      const block = chain.mineBlock([
+        pool.withdrawRewards([0], wallet_1),
+        pool.withdrawRewards([0], wallet_2),
+        pool.withdrawRewards([0], wallet_1),
+        pool.withdrawRewards([0], wallet_3)
+      ]);
+
+      block.receipts[0].result.expectOk().expectBool(true);
+      block.receipts[0].events.expectFungibleTokenTransferEvent(
+        Number(coinbase * 3n / 4n),
+        pool.getContractAddress(),
+        wallet_1.address,
+        "citycoins"
+      );
+      block.receipts[1].result.expectOk().expectBool(true);
+      block.receipts[2].result.expectErr().expectUint(PoolErrCode.ERR_NOTHING_TO_WITHDRAW);
+      block.receipts[3].result.expectErr().expectUint(PoolErrCode.ERR_NOTHING_TO_WITHDRAW);
+      assertEquals(client.getBalance(wallet_1), { ok: true, value: coinbase * 3n / 4n });
+      assertEquals(client.getBalance(wallet_2), { ok: true, value: coinbase / 4n });
+      assertEquals(pool.getContribution(0, wallet_1), { amountUstx: 300n, withdrawn: true });
+      assertEquals(pool.getContributorReward(0, wallet_1), 0n);
+    });
+
+    it("pays a contributor's share of several rounds in a single transfer", () => {
+      const secondHeight = chain.mineBlock([
+        pool.contribute(100, wallet_1),
+        pool.commitRound(deployer)
+      ]).height;
+      chain.mineEmptyBlockUntil(secondHeight + TOKEN_REWARD_MATURITY + 1);
+      chain.mineBlock([pool.claimRounds([0, 1], wallet_3)]);
+      const expected = client.getCoinbaseAmount(committedHeight) * 3n / 4n + client.getCoinbaseAmount(secondHeight);
+
+      const block = chain.mineBlock([
+        pool.withdrawRewards([0, 1, 2], wallet_1)
+      ]);
+
+      block.receipts[0].result.expectOk().expectBool(true);
+      assertEquals(client.getBalance(wallet_1), { ok: true, value: expected });
+    });
+
+    it("pays what rounding leaves over to the contributors who withdraw later", () => {
+      const secondHeight = chain.mineBlock([
+        pool.contribute(1, wallet_1),
+        pool.contribute(1, wallet_2),
+        pool.contribute(1, wallet_3),
+        pool.commitRound(deployer)
+      ]).height;
+      chain.mineEmptyBlockUntil(secondHeight + TOKEN_REWARD_MATURITY + 1);
+      chain.mineBlock([pool.claimRounds([1], wallet_3)]);
+      const coinbase = client.getCoinbaseAmount(secondHeight);
+
+      chain.mineBlock([
+        pool.withdrawRewards([1], wallet_1),
+        pool.withdrawRewards([1], wallet_2)
+      ]);
+
+      assertEquals(client.getBalance(wallet_1), { ok: true, value: coinbase / 3n });
+      assertEquals(client.getBalance(wallet_2), { ok: true, value: coinbase * 2n / 3n - coinbase / 3n });
+      assertEquals(pool.getRoundWithdrawals(1), { amountUstx: 2n, amountToken: coinbase * 2n / 3n });
+      assertEquals(pool.getContributorReward(1, wallet_3), coinbase - coinbase * 2n / 3n);
+
+      chain.mineBlock([pool.withdrawRewards([1], wallet_3)]);
+
+      assertEquals(client.getBalance(wallet_3), { ok: true, value: coinbase - coinbase * 2n / 3n });
+      assertEquals(pool.getRoundWithdrawals(1), { amountUstx: 3n, amountToken: coinbase });
+      assertEquals(client.getBalance(pool.getContractAddress()), { ok: true, value: 0n });
+    });
+  });
+
+  describe("losing round", () => {
+    let committedHeight: number;
+
+    beforeEach(() => {
+      committedHeight = chain.mineBlock([
+        pool.contribute(1, wallet_1),
+        pool.commitRound(deployer),
+        client.mineTokens(1000000, wallet_3)
+      ]).height;
+      chain.mineEmptyBlockUntil(committedHeight + TOKEN_REWARD_MATURITY + 1);
+    });
+
+    it("can't be claimed by the pool", () => {
+      const block = chain.mineBlock([
+        pool.claimRounds([0], wallet_1)
+      ]);
+
+      const outcomes = block.receipts[0].result.expectOk().expectList();
+      outcomes[0].expectErr().expectUint(ErrCode.ERR_UNAUTHORIZED);
+      assertEquals(client.getBlockSummary(committedHeight).winner, wallet_3.address);
+      assertEquals(pool.getRound(0), { totalUstx: 1n, stacksBlockHeight: BigInt(committedHeight), amountToken: 0n });
+    });
+
+    it("leaves contributors nothing to withdraw", () => {
+      chain.mineBlock([pool.claimRounds([0], wallet_1)]);
+
+      const block = chain.mineBlock([
+        pool.withdrawRewards([0], wallet_1)
+      ]);
+
+      block.receipts[0].result.expectErr().expectUint(PoolErrCode.ERR_NOTHING_TO_WITHDRAW);
+      assertEquals(pool.getContributorReward(0, wallet_1), 0n);
+      assertEquals(client.getBalance(wallet_1), { ok: true, value: 0n });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { Chain, Account } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import { assertEquals } from "https://deno.land/std@0.93.0/testing/asserts.ts";
+
+import {
+  describe,
+  it,
+} from "https://deno.land/x/test_suite@v0.7.0/mod.ts";
+
+import {
+  CityCoinClient,
+  ErrCode,
+  MINING_ACTIVATION_DELAY,
+  TOKEN_URI
+} from "../src/citycoin-client.ts";
+
+import {
+  CITIES,
+  MIAMICOIN,
+  SANFRANCISCOCOIN
+} from "../src/city-configs.ts";
+
+import { setupChain } from "./helpers/chain_setup.ts";
+
+describe('[Multi-city]', () => {
+  let chain: Chain;
+  let deployer: Account;
+  let wallets: Account[];
+  let citycoin: CityCoinClient;
+  let miami: CityCoinClient;
+  let sanFrancisco: CityCoinClient;
+
+  function setupCities() {
+    let accounts: Map<string, Account>;
+    ({ chain, accounts } = setupChain());
+    deployer = accounts.get('deployer')!;
+    wallets = [1, 2, 3, 4, 5].map((i) => accounts.get(`wallet_${i}`)!);
+
+    citycoin = new CityCoinClient(chain, deployer);
+    miami = new CityCoinClient(chain, deployer, MIAMICOIN);
+    sanFrancisco = new CityCoinClient(chain, deployer, SANFRANCISCOCOIN);
+  }
+
+  // registers just enough miners to activate mining in San Francisco, then skips the activation delay
+  function activateSanFrancisco() {
+    chain.mineBlock(
+      wallets.slice(0, SANFRANCISCOCOIN.activationThreshold).map((wallet) => sanFrancisco.registerMiner(wallet))
+    ).receipts.forEach((receipt) => receipt.result.expectOk());
+    chain.mineEmptyBlock(MINING_ACTIVATION_DELAY);
+  }
+
+  describe("CityCoinClient", () => {
+    it("calls the contract with the given name, or the one generated for the given city", () => {
+      setupCities();
+
+      assertEquals(citycoin.getContractAddress(), `${deployer.address}.citycoin`);
+      assertEquals(new CityCoinClient(chain, deployer, "miamicoin").getContractAddress(), `${deployer.address}.miamicoin`);
+      assertEquals(miami.getContractAddress(), `${deployer.address}.miamicoin`);
+    });
+  });
+
+  describe("generated contracts", () => {
+    it("are deployed with the values of their city's CityConfig", () => {
+      setupCities();
+
+      for (const city of CITIES) {
+        const client = new CityCoinClient(chain, deployer, city);
+
+        assertEquals(client.getName(), { ok: true, value: city.tokenName });
+        assertEquals(client.getSymbol(), { ok: true, value: city.tokenSymbol });
+        assertEquals(client.getTokenUri(), { ok: true, value: city.tokenUri });
+        assertEquals(client.getCityWalletInfo().cityWallet, city.cityWallet);
+        assertEquals(client.getActivationStatus().threshold, BigInt(city.activationThreshold));
+      }
+    });
+
+    it("leave the template contract untouched", () => {
+      setupCities();
+
+      assertEquals(citycoin.getName(), { ok: true, value: "citycoins" });
+      assertEquals(citycoin.getSymbol(), { ok: true, value: "CYCN" });
+      assertEquals(citycoin.getTokenUri(), { ok: true, value: TOKEN_URI });
+      assertEquals(citycoin.getCityWalletInfo().cityWallet, deployer.address);
+    });
+
+    it("keep miner registration and mining isolated", () => {
+      setupCities();
+      activateSanFrancisco();
+
+      assertEquals(sanFrancisco.getActivationStatus().activated, true);
+      assertEquals(miami.getActivationStatus().registeredMiners, 0n);
+      assertEquals(miami.getActivationStatus().activated, false);
+      assertEquals(miami.isMinerRegistered(wallets[0]), false);
+
+      const block = chain.mineBlock([
+        sanFrancisco.mineTokens(1000, wallets[0]),
+        miami.mineTokens(1000, wallets[0]),
+        citycoin.mineTokens(1000, wallets[0])
+      ]);
+
+      block.receipts[0].result.expectOk().expectBool(true);
+      block.receipts[1].result.expectErr().expectUint(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+      block.receipts[2].result.expectErr().expectUint(ErrCode.ERR_STACKING_NOT_AVAILABLE);
+      assertEquals(sanFrancisco.getMinersAtBlock(block.height).length, 1);
+      assertEquals(miami.getMinersAtBlock(block.height), []);
+      assertEquals(sanFrancisco.getCityWalletInfo().unclaimedUstx, 300n);
+      assertEquals(miami.getCityWalletInfo().unclaimedUstx, 0n);
+    });
+
+    it("keep token balances isolated", () => {
+      setupCities();
+
+      chain.mineBlock([
+        miami.ftMint(100, wallets[0]),
+        sanFrancisco.ftMint(200, wallets[0])
+      ]).receipts.forEach((receipt) => receipt.result.expectOk());
+      chain.mineBlock([
+        miami.transfer(40, wallets[0], wallets[1], wallets[0])
+      ]).receipts[0].result.expectOk();
+
+      assertEquals(miami.getBalance(wallets[0]), { ok: true, value: 60n });
+      assertEquals(miami.getBalance(wallets[1]), { ok: true, value: 40n });
+      assertEquals(sanFrancisco.getBalance(wallets[0]), { ok: true, value: 200n });
+      assertEquals(sanFrancisco.getBalance(wallets[1]), { ok: true, value: 0n });
+      assertEquals(citycoin.getTotalSupply(), { ok: true, value: 0n });
+    });
+  });
+});
@@ -0,0 +1,484 @@
+import { Tx } from 'https://deno.land/x/clarinet@v0.6.0/index.ts';
+import { assertEquals, assert } from "https://deno.land/std@0.93.0/testing/asserts.ts";
+
+import {
+  describe,
+  it,
+} from "https://deno.land/x/test_suite@v0.7.0/mod.ts";
+
+import {
+  CityCoinClient,
+  ErrCode,
+  Result
+} from "../src/citycoin-client.ts";
+
+import {
+  PoxLiteSimulator,
+  seededRandomSource
+} from "../src/pox-lite-simulator.ts";
+
+import { setupChain } from "./helpers/chain_setup.ts";
+
+const CONTRACT_ID = "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE.citycoin";
+const DEPLOYER = "ST1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE";
+const MINERS = [
+  "ST1J4G6RR643BCG8G8SR6M2D9Z9KXT2NJDRK3FBTK",
+  "ST20ATRN26N9P05V2F1RHFRV24X8C8M3W54E427B2",
+  "ST21HMSJATHZ888PD0S0SSTWP4J61TCRJYEVQ0STB",
+  "ST2QXSK64YQX3CQPC530K79XWQ98XFAM9W3XKEH3N",
+  "ST3DG3R65C9TTEEW5BC5XTSY0M1JM7NBE7GVWKTVJ"
+];
+
+// activates mining at block 1 + 100
+function activatedSimulator(): PoxLiteSimulator {
+  const sim = new PoxLiteSimulator(CONTRACT_ID, DEPLOYER);
+  sim.advanceTo(1);
+  MINERS.forEach((miner) => {
+    sim.setStxBalance(miner, 1000000n);
+    sim.registerMiner(miner);
+  });
+  return sim;
+}
+
+function expectErr(result: Result<true>, error: ErrCode) {
+  assertEquals(result, { ok: false, error });
+}
+
+// formats a simulated outcome the way Clarinet prints a receipt's result
+function asReceiptResult(result: Result<true | Result<true>[]>): string {
+  if (!result.ok) {
+    return `(err u${result.error})`;
+  }
+  return Array.isArray(result.value) ? `(ok [${result.value.map(asReceiptResult).join(", ")}])` : "(ok true)";
+}
+
+// small deterministic PRNG, so a failing action sequence can be replayed
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('[PoX-lite simulator]', () => {
+  describe("getBlockWinner()", () => {
+    it("samples miners proportionally to their commitment", () => {
+      const sim = new PoxLiteSimulator(CONTRACT_ID, DEPLOYER);
+      const miners = [
+        { miner: MINERS[0], amountUstx: 1n },
+        { miner: MINERS[1], amountUstx: 2n },
+        { miner: MINERS[2], amountUstx: 3n }
+      ];
+      const expected = [0, 1, 1, 2, 2, 2, 0, 1, 1, 2, 2, 2];
+
+      expected.forEach((idx, sample) => {
+        assertEquals(sim.getBlockWinner(BigInt(sample), miners), miners[idx], `sample ${sample}`);
+      });
+    });
+
+    it("returns null when nobody committed anything", () => {
+      const sim = new PoxLiteSimulator(CONTRACT_ID, DEPLOYER);
+
+      assertEquals(sim.getBlockWinner(5n, []), null);
+    });
+  });
+
+  describe("registerMiner()", () => {
+    it("activates mining after the 5th miner registers", () => {
+      const sim = new PoxLiteSimulator(CONTRACT_ID, DEPLOYER);
+      sim.advanceTo(10);
+
+      MINERS.slice(0, 4).forEach((miner) => sim.registerMiner(miner));
+      assertEquals(sim.getActivationBlock(), null);
+
+      sim.registerMiner(MINERS[4]);
+      assertEquals(sim.getActivationBlock(), 110);
+      expectErr(sim.registerMiner(DEPLOYER), ErrCode.ERR_MINING_ACTIVATION_THRESHOLD_REACHED);
+    });
+  });
+
+  describe("mineMany()", () => {
+    it("doesn't commit anything if one of the blocks can't be mined", () => {
+      const sim = activatedSimulator();
+      sim.advanceTo(200);
+
+      expectErr(sim.mineMany([10n, 0n, 10n], MINERS[0]), ErrCode.ERR_CANNOT_MINE);
+      assertEquals(sim.getMinersAtBlock(200), []);
+      assertEquals(sim.getStxBalance(MINERS[0]), 1000000n);
+    });
+  });
+
+  describe("claimTokenReward()", () => {
+    it("mints the coinbase once the block matured", () => {
+      const sim = activatedSimulator();
+      sim.advanceTo(200);
+      sim.mineTokens(10n, MINERS[0]);
+
+      sim.advanceTo(300);
+      expectErr(sim.claimTokenReward(200, MINERS[0]), ErrCode.ERR_IMMATURE_TOKEN_REWARD);
+
+      sim.advanceTo(301);
+      expectErr(sim.claimTokenReward(200, MINERS[1]), ErrCode.ERR_UNAUTHORIZED);
+      assertEquals(sim.claimTokenReward(200, MINERS[0]), { ok: true, value: true });
+      assertEquals(sim.getTokenBalance(MINERS[0]), sim.getCoinbaseAmount(200));
+      expectErr(sim.claimTokenReward(200, MINERS[0]), ErrCode.ERR_ALREADY_CLAIMED);
+    });
+  });
+
+  // Clarinet's test receipts don't report execution costs (scripts/measure-costs.mjs measures the contract's), so compare
+  // how many per-miner entries and partial sums each operation reads: the contract's runtime cost grows with the same
+  // map reads
+  describe("cost of mining and claiming with many miners per block", () => {
+    const MINED_HEIGHT = 200;
+
+    // a block with `count` miners, committing 1, 2, 3... uSTX
+    function simulatorWithMiners(count: number): { sim: PoxLiteSimulator, miners: string[] } {
+      const sim = activatedSimulator();
+      const miners = [...Array(count).keys()].map((i) => `${DEPLOYER}.miner-${i}`);
+      sim.advanceTo(MINED_HEIGHT);
+      miners.forEach((miner, i) => {
+        sim.setStxBalance(miner, 1000n);
+        assertEquals(sim.mineTokens(BigInt(i + 1), miner), { ok: true, value: true });
+      });
+      return { sim, miners };
+    }
+
+    function entryReads(sim: PoxLiteSimulator, operation: () => void): number {
+      const before = sim.minerEntryReads;
+      operation();
+      return sim.minerEntryReads - before;
+    }
+
+    it("mines without reading the block's other miners", () => {
+      for (const count of [1, 32, 100]) {
+        const { sim } = simulatorWithMiners(count);
+        sim.setStxBalance(MINERS[0], 1000n);
+
+        // the new commitment's leaf and the 7 partial sums above it
+        assertEquals(entryReads(sim, () => sim.mineTokens(10n, MINERS[0])), 8, `${count} miners`);
+        assertEquals(entryReads(sim, () => expectErr(sim.mineTokens(10n, MINERS[0]), ErrCode.ERR_ALREADY_MINED)), 0);
+      }
+    });
+
+    it("claims by reading only the claimant's own entry and the partial sums next to it", () => {
+      for (const count of [2, 32, 128]) {
+        const { sim, miners } = simulatorWithMiners(count);
+        sim.advanceTo(MINED_HEIGHT + 101);
+        const winner = sim.getBlockSummary(MINED_HEIGHT).winner!;
+        const loser = miners.find((miner) => miner !== winner)!;
+
+        // at most one partial sum per level of the tree
+        assert(entryReads(sim, () => expectErr(sim.claimTokenReward(MINED_HEIGHT, loser), ErrCode.ERR_UNAUTHORIZED)) <= 8);
+        assert(entryReads(sim, () => sim.claimTokenReward(MINED_HEIGHT, winner)) <= 8, `${count} miners`);
+        assertEquals(sim.getTokenBalance(winner), sim.getCoinbaseAmount(MINED_HEIGHT));
+      }
+    });
+
+    it("finds the winner in a logarithmic number of reads, rather than reading every miner", () => {
+      const { sim, miners } = simulatorWithMiners(128);
+      sim.advanceTo(MINED_HEIGHT + 101);
+
+      assertEquals(entryReads(sim, () => sim.getMinersAtBlock(MINED_HEIGHT)), 128);
+      assert(entryReads(sim, () => sim.getBlockSummary(MINED_HEIGHT)) <= 15);
+      for (let sample = 0n; sample < 8256n; sample += 97n) {
+        const winner = sim.getBlockWinner(sample, sim.getMinersAtBlock(MINED_HEIGHT))!.miner;
+        miners.forEach((miner) => assertEquals(sim.isBlockWinner(miner, MINED_HEIGHT, sample), miner === winner));
+      }
+    });
+
+    it("cancels by reading as many entries whatever the miner's position and the block size", () => {
+      for (const count of [2, 32, 128]) {
+        for (const position of [0, count / 2, count - 1]) {
+          const sim = activatedSimulator();
+          const miners = [...Array(count).keys()].map((i) => `${DEPLOYER}.miner-${i}`);
+          sim.advanceTo(MINED_HEIGHT - 1);
+          miners.forEach((miner, i) => {
+            sim.setStxBalance(miner, 1000n);
+            assertEquals(sim.mineMany([1n, BigInt(i + 1)], miner), { ok: true, value: true });
+          });
+
+          const reads = entryReads(sim, () => sim.cancelMining(MINED_HEIGHT, miners[position]));
+
+          // the cancelled and the last miner's entries, and the partial sums above the one or two leaves that change
+          assertEquals(reads, position === count - 1 ? 2 + 8 : 2 + 16, `${count} miners, position ${position}`);
+          assertEquals(sim.getMinerAtBlock(miners[position], MINED_HEIGHT), null);
+          assertEquals(sim.getMinersAtBlock(MINED_HEIGHT).length, count - 1);
+        }
+      }
+    });
+
+    it("refuses more than maxMinersPerBlock miners", () => {
+      const { sim } = simulatorWithMiners(128);
+      sim.setStxBalance(MINERS[0], 1000n);
+
+      expectErr(sim.mineTokens(10n, MINERS[0]), ErrCode.ERR_ROUND_FULL);
+    });
+  });
+
+  describe("claimStackingReward()", () => {
+    it("pays out the Stacker's share of the cycle's commitments, rounded down", () => {
+      const sim = activatedSimulator();
+      sim.mint(MINERS[0], 100n);
+      sim.mint(MINERS[1], 200n);
+
+      sim.advanceTo(110);
+      sim.stackTokens(100n, 111, 1, MINERS[0]);
+      sim.stackTokens(200n, 111, 1, MINERS[1]);
+
+      // 100 uSTX committed in reward cycle 1, 70 of which go to Stackers
+      sim.advanceTo(601);
+      sim.mineTokens(100n, MINERS[2]);
+      assertEquals(sim.getTokensPerCycle(1), { totalUstx: 70n, totalTokens: 300n });
+
+      assertEquals(sim.getEntitledStackingReward(MINERS[0], 1, 1100), 0n);
+      assertEquals(sim.getEntitledStackingReward(MINERS[0], 1, 1101), 23n);
+      assertEquals(sim.getEntitledStackingReward(MINERS[1], 1, 1101), 46n);
+
+      sim.advanceTo(1101);
+      assertEquals(sim.claimStackingReward(1, MINERS[0]), { ok: true, value: true });
+      expectErr(sim.claimStackingReward(1, MINERS[0]), ErrCode.ERR_NOTHING_TO_REDEEM);
+      assertEquals(sim.getStxBalance(MINERS[0]), 1000023n);
+    });
+  });
+
+  describe("seededRandomSource()", () => {
+    it("is deterministic", () => {
+      assertEquals(seededRandomSource(7n)(100), seededRandomSource(7n)(100));
+    });
+  });
+
+  describe("differential test against the contract", () => {
+    const SEED = 1337;
+    const ACTION_BLOCKS = 150;
+
+    it(`replays the same random actions (seed ${SEED}) with the same outcomes`, () => {
+      const { chain, accounts } = setupChain();
+
+      const deployer = accounts.get('deployer')!;
+      const wallets = [1, 2, 3, 4, 5].map((i) => accounts.get(`wallet_${i}`)!);
+      const everyone = [deployer, ...wallets];
+      const client = new CityCoinClient(chain, deployer);
+      const contractId = client.getContractAddress();
+
+      const sim = new PoxLiteSimulator(
+        contractId,
+        deployer.address,
+        (height) => client.getRandomUintAtBlock(height)
+      );
+      // uSTX balances as seen through the chain's transfer events
+      const chainStx: Map<string, bigint> = new Map();
+      for (const account of everyone) {
+        sim.setStxBalance(account.address, BigInt(account.balance));
+        chainStx.set(account.address, BigInt(account.balance));
+      }
+
+      const rand = mulberry32(SEED);
+      const pick = <T>(items: T[]): T => items[Math.floor(rand() * items.length)];
+      const between = (min: number, max: number) => min + Math.floor(rand() * (max - min + 1));
+      const minedHeights: Set<number> = new Set();
+      let actions = 0;
+      let succeeded = 0;
+
+      type Action = { tx: Tx, apply: () => Result<true | Result<true>[]> };
+
+      function mineActions(build: (height: number) => Action[]) {
+        const height = chain.blockHeight + 1;
+        const batch = build(height);
+        const block = chain.mineBlock(batch.map((action) => action.tx));
+        assertEquals(block.height, height);
+        sim.advanceTo(block.height);
+
+        batch.forEach((action, i) => {
+          const expected = action.apply();
+          const receipt = block.receipts[i];
+          assertEquals(receipt.result, asReceiptResult(expected), `block ${block.height}, tx ${i}: ${action.tx.contractCall?.method}`);
+
+          for (const e of receipt.events) {
+            if (e.type === "stx_transfer_event") {
+              const { sender, recipient, amount } = e.stx_transfer_event;
+              chainStx.set(sender, (chainStx.get(sender) ?? 0n) - BigInt(amount));
+              chainStx.set(recipient, (chainStx.get(recipient) ?? 0n) + BigInt(amount));
+            }
+          }
+          actions++;
+          succeeded += expected.ok ? 1 : 0;
+        });
+
+        // mine-many commits to up to 6 blocks
+        for (let h = block.height; h < block.height + 6; h++) {
+          if (sim.getMinersAtBlock(h).length > 0) {
+            minedHeights.add(h);
+          }
+        }
+      }
+
+      function randomAction(height: number): Action {
+        const wallet = pick(wallets);
+        const sender = wallet.address;
+
+        switch (pick(["mine", "mine", "mine-many", "cancel", "stack", "extend", "increase", "delegate", "revoke", "delegate-stack", "delegate-stack", "claim-token", "claim-token", "claim-tokens", "claim-stacking", "claim-stacking-many", "claim-unlocked", "withdraw"])) {
+          case "mine": {
+            const amount = between(0, 5000);
+            return { tx: client.mineTokens(amount, wallet), apply: () => sim.mineTokens(BigInt(amount), sender) };
+          }
+          case "mine-many": {
+            const amounts = Array.from({ length: between(0, 6) }, () => between(0, 3000));
+            return { tx: client.mineMany(amounts, wallet), apply: () => sim.mineMany(amounts.map(BigInt), sender) };
+          }
+          case "cancel": {
+            const from = height + between(-2, 4);
+            return { tx: client.cancelMining(from, wallet), apply: () => sim.cancelMining(from, sender) };
+          }
+          case "stack": {
+            const balance = Number(sim.getTokenBalance(sender));
+            const amount = between(0, balance + 10);
+            const start = height + between(-10, 600);
+            const lockPeriod = between(0, 6);
+            return {
+              tx: client.stackTokens(amount, start, lockPeriod, wallet),
+              apply: () => sim.stackTokens(BigInt(amount), start, lockPeriod, sender)
+            };
+          }
+          case "extend": {
+            const lockPeriod = between(0, 8);
+            return { tx: client.extendStacking(lockPeriod, wallet), apply: () => sim.extendStacking(lockPeriod, sender) };
+          }
+          case "increase": {
+            const amount = between(0, Number(sim.getTokenBalance(sender)) + 10);
+            return { tx: client.increaseStacking(amount, wallet), apply: () => sim.increaseStacking(BigInt(amount), sender) };
+          }
+          case "delegate": {
+            const operator = pick(wallets);
+            const amount = between(0, 1500);
+            const until = rand() < 0.5 ? null : height + between(-5, 4000);
+            return {
+              tx: client.delegateStacking(operator, amount, until, wallet),
+              apply: () => sim.delegateStacking(operator.address, BigInt(amount), until, sender)
+            };
+          }
+          case "revoke":
+            return { tx: client.revokeDelegation(wallet), apply: () => sim.revokeDelegation(sender) };
+          case "delegate-stack": {
+            // usually Stack as the member's operator, so it can succeed
+            const member = pick(wallets);
+            const delegation = sim.getDelegation(member.address);
+            const operator = delegation !== null && rand() < 0.8 ? wallets.find((w) => w.address === delegation.operator)! : wallet;
+            const amount = between(0, Number(delegation?.amountToken ?? 100n) / 2);
+            const start = height + between(-10, 600);
+            const lockPeriod = between(0, 4);
+            return {
+              tx: client.delegateStackTokens(member, amount, start, lockPeriod, operator),
+              apply: () => sim.delegateStackTokens(member.address, BigInt(amount), start, lockPeriod, operator.address)
+            };
+          }
+          case "claim-token": {
+            const mined = [...minedHeights];
+            const target = mined.length > 0 ? pick(mined) : height - 1;
+            // usually claim as one of the miners of that block, so claims can succeed
+            const commits = sim.getMinersAtBlock(target);
+            const candidate = commits.length > 0 && rand() < 0.8 ? pick(commits).miner : sender;
+            const claimer = wallets.find((w) => w.address === candidate)!;
+            return { tx: client.claimTokenReward(target, claimer), apply: () => sim.claimTokenReward(target, claimer.address) };
+          }
+          case "claim-tokens": {
+            const mined = [...minedHeights];
+            const targets = Array.from({ length: between(0, 4) }, () => mined.length > 0 ? pick(mined) : height - 1);
+            return { tx: client.claimTokenRewards(targets, wallet), apply: () => sim.claimTokenRewards(targets, sender) };
+          }
+          case "claim-stacking": {
+            const cycle = Math.max(0, (sim.getRewardCycle(height) ?? 0) - between(0, 3));
+            return { tx: client.claimStackingReward(cycle, wallet), apply: () => sim.claimStackingReward(cycle, sender) };
+          }
+          case "claim-stacking-many": {
+            const cycles = Array.from({ length: between(0, 5) }, () => between(0, (sim.getRewardCycle(height) ?? 0) + 1));
+            return { tx: client.claimStackingRewards(cycles, wallet), apply: () => sim.claimStackingRewards(cycles, sender) };
+          }
+          case "claim-unlocked":
+            return { tx: client.claimUnlockedTokens(wallet), apply: () => sim.claimUnlockedTokens(sender) };
+          default: {
+            const amount = between(0, 2000);
+            return {
+              tx: client.withdrawCityFunds(amount, deployer),
+              apply: () => sim.withdrawCityFunds(BigInt(amount), deployer.address)
+            };
+          }
+        }
+      }
+
+      // activate mining, and give Stackers something to stack right away
+      mineActions(() => wallets.map((wallet) => ({
+        tx: client.registerMiner(wallet),
+        apply: () => sim.registerMiner(wallet.address)
+      })));
+      mineActions(() => wallets.map((wallet) => ({
+        tx: client.ftMint(1000, wallet),
+        apply: () => {
+          sim.mint(wallet.address, 1000n);
+          return { ok: true, value: true };
+        }
+      })));
+      chain.mineEmptyBlockUntil(sim.getActivationBlock()! - 1);
+
+      for (let i = 0; i < ACTION_BLOCKS; i++) {
+        // skip ahead now and then, so that rewards mature and reward cycles pass
+        if (rand() < 0.1) {
+          chain.mineEmptyBlockUntil(chain.blockHeight + between(50, 400));
+        }
+
+        mineActions((height) => Array.from({ length: between(1, 4) }, () => randomAction(height)));
+      }
+
+      // sanity check that the sequence exercised the happy paths as well
+      assertEquals(succeeded > actions / 5, true, `only ${succeeded} of ${actions} actions succeeded`);
+
+      for (const account of [...everyone.map((a) => a.address), contractId]) {
+        assertEquals(sim.getStxBalance(account), chainStx.get(account) ?? 0n, `uSTX balance of ${account}`);
+      }
+      for (const wallet of wallets) {
+        assertEquals(client.getBalance(wallet), { ok: true, value: sim.getTokenBalance(wallet.address) });
+        assertEquals(client.getStackerUnlockInfo(wallet), sim.getStackerUnlockInfo(wallet.address));
+        assertEquals(client.getStackingPosition(wallet), sim.getStackingPosition(wallet.address));
+        assertEquals(client.getDelegation(wallet), sim.getDelegation(wallet.address));
+        assertEquals(client.getMinerStats(wallet), sim.getMinerStats(wallet.address));
+        assertEquals(
+          client.getUnclaimedStackingRewards(wallet, 0, sim.getRewardCycle(chain.blockHeight)!),
+          sim.getUnclaimedStackingRewards(wallet.address, 0, sim.getRewardCycle(chain.blockHeight)!)
+        );
+      }
+      assertEquals(client.getTotalSupply(), { ok: true, value: sim.getTotalSupply() });
+      assertEquals(client.getCityWalletInfo(), sim.getCityWalletInfo());
+
+      for (const height of minedHeights) {
+        assertEquals(client.getMinersAtBlock(height), sim.getMinersAtBlock(height), `miners at block ${height}`);
+        assertEquals(client.isBlockRewardClaimed(height), sim.isBlockRewardClaimed(height), `claimed at block ${height}`);
+        assertEquals(client.getBlockSummary(height), sim.getBlockSummary(height), `summary of block ${height}`);
+        for (const wallet of wallets) {
+          assertEquals(client.getMinerAtBlock(wallet, height), sim.getMinerAtBlock(wallet.address, height), `${wallet.name} at block ${height}`);
+        }
+      }
+
+      const lastCycle = sim.getRewardCycle(chain.blockHeight)! + 8;
+      for (let cycle = 0; cycle <= lastCycle; cycle++) {
+        assertEquals(client.getTokensPerCycle(cycle), sim.getTokensPerCycle(cycle), `tokens per cycle ${cycle}`);
+        assertEquals(client.getCycleStats(cycle), sim.getCycleStats(cycle), `stats of cycle ${cycle}`);
+        assertEquals(client.getCityUstxInCycle(cycle), sim.getCityUstxInCycle(cycle), `city uSTX in cycle ${cycle}`);
+        for (const wallet of wallets) {
+          assertEquals(
+            client.getStackedInCycle(wallet, cycle),
+            sim.getStackedInCycle(wallet.address, cycle),
+            `stacked by ${wallet.name} in cycle ${cycle}`
+          );
+          for (const member of wallets) {
+            assertEquals(
+              client.getPoolMemberReward(wallet, member, cycle),
+              sim.getPoolMemberReward(wallet.address, member.address, cycle),
+              `reward of ${member.name} in ${wallet.name}'s pool in cycle ${cycle}`
+            );
+          }
+        }
+      }
+    });
+  });
+});
@@ -11,9 +11,9 @@ contract_addr="SPP5ERW9P30ZQ9S7KGEBH042E7EJHWDT2Z5K086D"
 contract_id="${contract_addr}.${contract_name}"
 tx_sender="S1G2081040G2081040G2081040G208105NK8PE5"
 
-sip10_contract="${contracts_dir}/sip-10-ft-standard.clar"
+sip10_contract="${contracts_dir}/sip-010-trait-ft-standard.clar"
 sip10_contract_addr="SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE"
-sip10_contract_id="${sip10_contract_addr}.sip-10-ft-standard"
+sip10_contract_id="${sip10_contract_addr}.sip-010-trait-ft-standard"
 
 specific_test="$1"
 